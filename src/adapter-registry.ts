@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as npm from 'npm';
+import { Network } from './config';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'adapter-registry' });
+
+// the versions of the adapter contract this server implements, see adapter.ts
+export const SUPPORTED_API_VERSIONS = [1];
+// assumed for adapters which don't declare a version, they predate versioning
+const LEGACY_API_VERSION = 1;
+
+// the methods of ThirdPartyAdapter an adapter can't do without
+const REQUIRED_METHODS = [
+  'initClient',
+  'startClient',
+  'getUserData',
+  'getRoomData',
+  'sendMessage',
+  'sendImageMessage',
+  'sendReadReceipt'
+];
+
+const PACKAGE_NAME_REGEX = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/;
+const EXACT_VERSION_REGEX = /^\d+\.\d+\.\d+(-[\w.-]+)?$/;
+
+/**
+ * Where an adapter is loaded from, either a local module or an npm package
+ */
+export interface AdapterSource {
+  // absolute path of a local module
+  path?: string;
+  packageName?: string;
+  // the exact version a package is pinned to, unset for the default package of a network
+  version?: string;
+}
+
+export class AdapterError extends Error {
+  constructor(network: string, message: string) {
+    super('Adapter of network '+network+': '+message);
+    this.name = 'AdapterError';
+  }
+}
+
+/**
+ * Parses the adapter setting of a network: a path (starting with '.' or '/') or a package pinned
+ * to an exact version, e.g. 'matrix-puppet-skype@1.2.0'
+ *
+ * @param {string} spec
+ * @returns {AdapterSource}
+ * @throws {Error} If it is neither
+ */
+export function parseAdapterSpec(spec: string) : AdapterSource {
+  if (spec.charAt(0) === '.' || path.isAbsolute(spec)) {
+    return { path: path.resolve(spec) };
+  }
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) {
+    throw new Error('must be a path, or a package pinned to a version like '+spec+'@1.0.0');
+  }
+  const packageName = spec.substr(0, at);
+  const version = spec.substr(at + 1);
+  if (!PACKAGE_NAME_REGEX.test(packageName)) {
+    throw new Error('invalid package name '+JSON.stringify(packageName));
+  }
+  if (!EXACT_VERSION_REGEX.test(version)) {
+    throw new Error('the package must be pinned to an exact version, not '+JSON.stringify(version));
+  }
+  return { packageName, version };
+}
+
+const describeSource = (source: AdapterSource) : string => {
+  if (source.path) {
+    return source.path;
+  }
+  return source.version ? source.packageName+'@'+source.version : source.packageName;
+};
+
+/**
+ * Checks that a loaded module exports an Adapter class which fulfils the ThirdPartyAdapter contract
+ *
+ * @param {string} network
+ * @param {object} module The exports of the adapter module
+ * @returns {function} The Adapter class
+ * @throws {AdapterError}
+ */
+export function validateAdapter(network: string, module: any) : any {
+  const Adapter = module && module.Adapter;
+  if (typeof Adapter !== 'function') {
+    throw new AdapterError(network, "doesn't export the 'Adapter' class");
+  }
+  const missing = REQUIRED_METHODS.filter(m => typeof Adapter.prototype[m] !== 'function');
+  if (missing.length > 0) {
+    throw new AdapterError(network, 'Adapter lacks '+missing.join(', '));
+  }
+  let apiVersion = module.apiVersion !== undefined ? module.apiVersion : Adapter.apiVersion;
+  if (apiVersion === undefined) {
+    log.warn('the adapter of', network, "doesn't declare an apiVersion, assuming", LEGACY_API_VERSION);
+    apiVersion = LEGACY_API_VERSION;
+  }
+  if (SUPPORTED_API_VERSIONS.indexOf(apiVersion) === -1) {
+    throw new AdapterError(network, 'API version '+JSON.stringify(apiVersion)+' is not supported, this server supports '+SUPPORTED_API_VERSIONS.join(', '));
+  }
+  return Adapter;
+}
+
+const installedVersion = (packageName: string) : string => {
+  try {
+    // not require()d, that would cache it across an install
+    return JSON.parse(fs.readFileSync(require.resolve(packageName+'/package.json'), 'utf8')).version;
+  } catch (err) {
+    return null;
+  }
+};
+
+let npmLoaded : Promise<void> = null;
+
+const installPackage = (pkg: string) : Promise<void> => {
+  if (!npmLoaded) {
+    npmLoaded = new Promise<void>((resolve, reject) => {
+      npm.load((err) => err ? reject(err) : resolve());
+    });
+  }
+  return npmLoaded.then(() => {
+    return new Promise<void>((resolve, reject) => {
+      npm.commands.install([pkg], (err) => err ? reject(err) : resolve());
+    });
+  });
+};
+
+/**
+ * Loads the adapter classes of networks from the sources their config names. One class
+ * can serve several networks, e.g. two networks using the same pinned package.
+ * Packages are only installed at runtime if the network allows it.
+ */
+export class AdapterRegistry {
+  // keyed by the description of their source
+  private classes: { [source: string]: any } = {};
+
+  /**
+   * @param {string} network The network name
+   * @param {Network} config The settings of the network
+   * @returns {Promise} A promise resolving to the Adapter class
+   */
+  public async load(network: string, config: Network) : Promise<any> {
+    let source : AdapterSource;
+    try {
+      source = config.adapter ? parseAdapterSpec(config.adapter) : { packageName: 'matrix-puppet-'+network };
+    } catch (err) {
+      throw new AdapterError(network, err.message);
+    }
+    const key = describeSource(source);
+    if (this.classes[key]) {
+      return this.classes[key];
+    }
+    if (source.packageName) {
+      await this.ensureInstalled(network, source, !!config.installAdapter);
+    }
+    let module;
+    try {
+      module = require(source.path || source.packageName);
+    } catch (err) {
+      throw new AdapterError(network, "can't load "+key+': '+err.message);
+    }
+    const Adapter = validateAdapter(network, module);
+    log.info('loaded the adapter of', network, 'from', key);
+    this.classes[key] = Adapter;
+    return Adapter;
+  }
+
+  private async ensureInstalled(network: string, source: AdapterSource, allowInstall: boolean) : Promise<void> {
+    const version = installedVersion(source.packageName);
+    if (version !== null && (!source.version || version === source.version)) {
+      return;
+    }
+    const problem = version === null ? 'is not installed' : 'is installed in version '+version;
+    if (!source.version) {
+      throw new AdapterError(network, describeSource(source)+' '+problem+', install it or pin a version in the adapter setting');
+    }
+    if (!allowInstall) {
+      throw new AdapterError(network, describeSource(source)+' '+problem+', install it or set installAdapter');
+    }
+    log.warn(source.packageName, problem+', installing', describeSource(source));
+    try {
+      await installPackage(describeSource(source));
+    } catch (err) {
+      throw new AdapterError(network, 'failed to install '+describeSource(source)+': '+err.message);
+    }
+  }
+}
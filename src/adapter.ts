@@ -0,0 +1,169 @@
+import * as mpb from 'matrix-puppet-bridge';
+import { ContactListUserData } from 'matrix-puppet-bridge';
+
+export interface ThirdPartyMessagePayload extends mpb.ThirdPartyMessagePayload {
+  // ID of the message on the third party network, used to map edits, deletions and reactions
+  messageId?: string;
+}
+
+export interface ThirdPartyImageMessagePayload extends mpb.ThirdPartyImageMessagePayload {
+  // ID of the message on the third party network, used to map edits, deletions and reactions
+  messageId?: string;
+}
+
+export interface ThirdPartyHistoryMessage extends ThirdPartyMessagePayload {
+  // when the message was sent, in milliseconds since the epoch
+  ts: number;
+}
+
+export interface ThirdPartyRedactionPayload {
+  roomId: string;
+  // ID of the deleted message on the third party network
+  messageId: string;
+}
+
+export interface ThirdPartyEditPayload {
+  roomId: string;
+  // ID of the edited message on the third party network
+  messageId: string;
+  // the new text of the message
+  text: string;
+  html?: string;
+}
+
+export interface ThirdPartyReactionPayload {
+  roomId: string;
+  // the third party user who reacted, leave it out if it was us
+  senderId?: string;
+  // ID of the message reacted to on the third party network
+  messageId: string;
+  // the reaction, usually an emoji
+  reaction: string;
+}
+
+export interface ThirdPartyReceiptPayload {
+  roomId: string;
+  // the third party user who read the message
+  senderId: string;
+  // ID of the message read up to on the third party network
+  messageId: string;
+}
+
+export interface ThirdPartyMemberPayload {
+  roomId: string;
+  // the third party user who joined or left
+  senderId: string;
+  senderName?: string;
+  avatarUrl?: string;
+}
+
+export interface ThirdPartyMemberRemovalPayload extends ThirdPartyMemberPayload {
+  // the third party user who removed them, leave it out if it was us
+  removedBy?: string;
+  reason?: string;
+}
+
+export interface ThirdPartyRoomMember {
+  userId: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export interface ThirdPartyRoomUpdate {
+  // leave out what didn't change, or isn't known
+  name?: string;
+  topic?: string;
+  avatarUrl?: string;
+}
+
+/**
+ * The callbacks an adapter gets to push third party events into matrix
+ */
+export interface PuppetBridge extends mpb.PuppetBridge {
+  // The message was deleted on the third party network
+  redactMessage(payload: ThirdPartyRedactionPayload): Promise<void>;
+
+  // The message was edited on the third party network
+  editMessage(payload: ThirdPartyEditPayload): Promise<void>;
+
+  // Someone reacted to a message on the third party network
+  addReaction(payload: ThirdPartyReactionPayload): Promise<void>;
+
+  // Someone took back their reaction on the third party network
+  removeReaction(payload: ThirdPartyReactionPayload): Promise<void>;
+
+  // A third party user started or stopped typing in a room
+  setTyping(roomId: string, senderId: string, typing: boolean): Promise<void>;
+
+  // The online status of a third party user changed, one of 'online', 'offline' or 'unavailable'
+  setPresence(senderId: string, presence: string): Promise<void>;
+
+  // A third party user read a room up to a message
+  setReadReceipt(payload: ThirdPartyReceiptPayload): Promise<void>;
+
+  // A third party user joined a room
+  memberJoined(payload: ThirdPartyMemberPayload): Promise<void>;
+
+  // A third party user left a room
+  memberLeft(payload: ThirdPartyMemberPayload): Promise<void>;
+
+  // A third party user was removed from a room
+  memberRemoved(payload: ThirdPartyMemberRemovalPayload): Promise<void>;
+
+  // The name, topic or avatar of a room changed on the third party network
+  updateRoom(roomId: string, data: ThirdPartyRoomUpdate): Promise<void>;
+
+  // The adapter lost its connection to the third party network, it gets restarted
+  // after a backoff unless it reports connected() before that
+  disconnected(reason?: string): void;
+
+  // The adapter reconnected by itself after reporting disconnected()
+  connected(): void;
+}
+
+/**
+ * The ThirdPartyAdapter contract from matrix-puppet-bridge, plus the optional
+ * hooks the server knows how to use when an adapter provides them.
+ *
+ * sendMessage, sendImageMessage and sendEmoteMessage may resolve to the ID of the
+ * message on the third party network, so that later events can refer to it.
+ * sendReadReceipt gets the ID of the message the puppet read up to as second argument, if known.
+ */
+export interface ThirdPartyAdapter extends mpb.ThirdPartyAdapter {
+  // Set if sendMessage, sendImageMessage and sendEmoteMessage resolve to message IDs, and the
+  // payloads of our own messages carry their messageId. Echoes are then told apart by ID,
+  // and messages are no longer tagged with deduplicationTag.
+  reportsMessageIds?: boolean;
+
+  // Disconnect from the third party network, used by !reconnect and !logout
+  stopClient?(): Promise<void>;
+
+  // Sign out of the third party network, falls back to stopClient
+  logout?(): Promise<void>;
+
+  // Full contact list of the third party account, used by !sync-contacts
+  getContacts?(): Promise<ContactListUserData[]>;
+
+  // Delete a message we sent, after it was redacted on matrix
+  deleteMessage?(thirdPartyRoomId: string, messageId: string): Promise<void>;
+
+  // Replace the text of a message we sent, after it was edited on matrix
+  editMessage?(thirdPartyRoomId: string, messageId: string, text: string): Promise<void>;
+
+  // React to a message, after the puppet reacted on matrix
+  addReaction?(thirdPartyRoomId: string, messageId: string, reaction: string): Promise<void>;
+
+  // Take back a reaction, after the puppet redacted it on matrix
+  removeReaction?(thirdPartyRoomId: string, messageId: string, reaction: string): Promise<void>;
+
+  // Show or hide us typing, after the puppet started or stopped typing on matrix
+  sendTyping?(thirdPartyRoomId: string, typing: boolean): Promise<void>;
+
+  // The latest messages of a room sent after since (milliseconds since the epoch, 0 for any time),
+  // at most limit of them. Imported when the room is bridged for the first time.
+  getHistory?(thirdPartyRoomId: string, since: number, limit: number): Promise<ThirdPartyHistoryMessage[]>;
+
+  // The current members of a room, without us. The ghosts of a room are joined and removed
+  // to match them when the room is created and when the bridge starts.
+  getRoomMembers?(thirdPartyRoomId: string): Promise<ThirdPartyRoomMember[]>;
+}
@@ -1,31 +1,60 @@
-import { AppServiceRegistration, Cli, Bridge, Base, ThirdPartyAdapter } from 'matrix-appservice-bridge';
+import { AppServiceRegistration, Cli, Bridge } from 'matrix-appservice-bridge';
 
 import { Puppet } from './puppet';
-import { Config, IdentityPair_Config, User } from './config';
+import { Base } from './base';
+import { Config, IdentityPair_Config, Network, User } from './config';
 import { BridgeController } from './bridge';
+import { loadConfig, applyEnvOverrides, ConfigError } from './config-loader';
+import { ProvisioningApi, ProvisioningHost, ReloadResult } from './provisioning';
+import { secretStore, SecretStore } from './secrets';
+import { registerMetricsEndpoint } from './metrics';
+import { registerHealthEndpoints, HealthHost } from './health';
 import * as fs  from 'async-file';
-import * as npm from 'npm';
+import { AdapterRegistry } from './adapter-registry';
 import { ghostCache } from './ghost-cache';
+import { createGhostStore } from './ghost-store';
+import { messageStore } from './message-store';
+import { messageQueue } from './message-queue';
+import { mediaCache } from './media-cache';
+import { logger } from './logger';
 
-const debug = require('debug')('matrix-puppet:debug');
-const info = require('debug')('matrix-puppet:info');
-const warn = require('debug')('matrix-puppet:warn');
-const error = require('debug')('matrix-puppet:error');
+const log = logger.child({ component: 'app' });
 
-export class App {
+// settings which are only read on startup
+const RESTART_ONLY_KEYS = ['homeserver', 'httpserver', 'provisioning', 'monitoring', 'ghostCache'];
+
+interface IdentityPairEntry {
+  network: string;
+  // the settings of the network, apart from its identity pairs
+  settings: Network;
+  ident: IdentityPair_Config;
+}
+
+export class App implements ProvisioningHost, HealthHost {
   private live : { [id: string]: Base };
   private config : Config;
   private bridge : Bridge;
   private configPath : string;
   private puppets : Map<string, Puppet> = new Map<string, Puppet>();
+  private adapterClasses : { [network: string]: any } = {};
+  private adapterRegistry : AdapterRegistry = new AdapterRegistry();
+  private reloadQueue : Promise<any> = Promise.resolve();
+  private shuttingDown : Promise<void> = null;
   async readConfig(jsonFile: string) : Promise<Config> {
-    const buffer : string = await fs.readFile(jsonFile);
-    return <Config>JSON.parse(buffer);
+    return loadConfig(jsonFile);
   }
 
   async start(configPath: string) {
     this.configPath = configPath;
-    this.config = await this.readConfig(configPath);
+    try {
+      this.config = await this.readConfig(configPath);
+    } catch (err) {
+      if (err instanceof ConfigError) {
+        log.error(err.message);
+        process.exit(1);
+      }
+      throw err;
+    }
     this.live = {};
     
     new Cli({
@@ -44,38 +73,6 @@ export class App {
     }).run();
   }
 
-  private async loadNpm() : Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      npm.load((err) => {
-        if (err) {
-          return reject(err);
-        }
-        return resolve();
-      });
-    });
-  }
-
-  private async installNpmPackage(pkg: string) : Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      npm.commands.install([pkg], (err, data) => {
-        if (err) {
-          npm.commands.link([pkg], (err, data) => {
-            if (err) {
-              return reject(err);
-            }
-            npm.commands.install([pkg], (err, data) => {
-              if (err) {
-                return reject(err);
-              }
-              return resolve(data);
-            });
-          });
-        }
-        return resolve(data);
-      });
-    });
-  }
-
   private createBridgeController(): BridgeController {
     let self = this;
     return <BridgeController>{
@@ -93,13 +90,108 @@ export class App {
     };
   }
 
+  /**
+   * Loads the adapter class of a network from the source its config names
+   *
+   * @param {string} network The network name
+   * @param {Network} settings The settings of the network
+   * @returns {Promise} A promise resolving to the Adapter class
+   */
+  private async loadNetwork(network: string, settings: Network) : Promise<any> {
+    this.adapterClasses[network] = await this.adapterRegistry.load(network, settings);
+    return this.adapterClasses[network];
+  }
+
+  /**
+   * Flattens the identity pairs of all networks, keyed by 'network/identityPairId'
+   */
+  private getIdentityPairs(config: Config) : { [key: string]: IdentityPairEntry } {
+    let pairs : { [key: string]: IdentityPairEntry } = {};
+    for (let network in config.networks) {
+      const { identityPairs, ...settings } = config.networks[network];
+      for (let identId in identityPairs) {
+        pairs[network+'/'+identId] = {
+          network,
+          settings: <Network>settings,
+          ident: <IdentityPair_Config>{
+            id: identId,
+            ...identityPairs[identId]
+          }
+        };
+      }
+    }
+    return pairs;
+  }
+
+  private createPuppet(localpart: string, user: User) : Puppet {
+    const puppet = new Puppet(localpart, user, this.config.homeserver);
+    puppet.onTokenAssociated((updated) => {
+      // the config file has the new token now, don't restart the puppet on the next reload. Like
+      // the reload, the entry keeps its environment overrides and secret references
+      let entry = { users: { [localpart]: { ...this.config.users[localpart], token: updated.token } } };
+      applyEnvOverrides(entry, process.env);
+      this.config.users[localpart] = entry.users[localpart];
+    });
+    puppet.registerCommand('reload', {
+      usage: '!reload',
+      description: 'reload the users and identity pairs from the config file',
+      run: ({ reply }) => {
+        return this.reload().then(({ changes, skipped }) => {
+          let lines = changes.length ? changes : ['Nothing changed'];
+          if (skipped.length) {
+            lines = lines.concat(['Changes to '+skipped.join(', ')+' need a restart, ignored them']);
+          }
+          return reply(lines.join('\n'));
+        });
+      }
+    });
+    this.puppets[localpart] = puppet;
+    return puppet;
+  }
+
+  private addIdentityPair(entry: IdentityPairEntry) : Base {
+    const { network, settings, ident } = entry;
+    log.debug(ident);
+    return this.puppets[ident.matrixPuppet].addAdapter(this.adapterClasses[network], ident, network, this.bridge, settings.backfill, settings.roomSync);
+  }
+
+  private startPuppet(puppet: Puppet) : Promise<void> {
+    return puppet.startClient(this.configPath).then(() => {
+      puppet.startAdapters();
+    }).catch((err) => {
+      // nothing waits for the puppets, so this is the only place to hear about it
+      puppet.getLogger().error('failed to start puppet', err);
+    });
+  }
+
+  /**
+   * Makes sure all secret references of a config can be resolved, before anything is started with it
+   */
+  private checkSecrets(config: Config, secrets: SecretStore = secretStore) {
+    secrets.resolve(config.users);
+    const pairs = this.getIdentityPairs(config);
+    for (let key in pairs) {
+      secrets.resolve(pairs[key].ident.thirdParty);
+    }
+  }
+
   private async run(port) : Promise<void> {
-    await ghostCache.load();
-    let users : string[] = []; // this array holds all the usernames of valid people for easy lookup
-    for (let u in this.config.users) {
-      users.push(u);
+    try {
+      if (this.config.secrets) {
+        await secretStore.open(this.config.secrets);
+      }
+      this.checkSecrets(this.config);
+    } catch (err) {
+      log.error(err.message);
+      process.exit(1);
     }
-    await this.loadNpm();
+    const pairs = this.getIdentityPairs(this.config);
+    await ghostCache.open(createGhostStore(this.config.ghostCache), Object.keys(pairs).map((key) => {
+      return { network: pairs[key].network, identityPairId: pairs[key].ident.id };
+    }));
+    await messageStore.load();
+    await messageQueue.load();
+    await mediaCache.load();
     
     // first we create the bridge
     this.bridge = new Bridge({
@@ -111,50 +203,214 @@ export class App {
     
     // here we load all the puppets (don't start them yet, though)
     for (let u in this.config.users) {
-      this.puppets[u] = new Puppet(u, this.config.users[u], this.config.homeserver);
+      this.createPuppet(u, this.config.users[u]);
     }
     
     // let's loop through all the networks
     for (let network in this.config.networks) {
-      debug("Found network " + network);
-      let net;
-      // if we can't import the network then we'll try to install it!
       try {
-        net = require('matrix-puppet-'+network);
-      } catch (e) {
-        debug(e);
-        await this.installNpmPackage('matrix-puppet-'+network);
-        net = require('matrix-puppet-'+network);
-      }
-      if (!net.Adapter) { // uho, this is actually just some random thing...
-        error("Network " + network + " doesn't export the 'Adapter' class!");
+        await this.loadNetwork(network, this.config.networks[network]);
+      } catch (err) {
+        log.error(err.message);
         process.exit(-1);
       }
-      
-      // okay let's loop through all identity pairs of this network and add them to the puppet
-      for (let identId in this.config.networks[network].identityPairs) {
-        let ident = <IdentityPair_Config>{
-          id: identId,
-          ...this.config.networks[network].identityPairs[identId]
-        };
-        if (!this.puppets[ident.matrixPuppet]) {
-          error("Unkown matrix puppet " + ident.matrixPuppet);
-          process.exit(-1);
-        }
-        this.puppets[ident.matrixPuppet].addAdapter(net.Adapter, ident, network, this.bridge);
-        debug(ident);
-      }
-      debug("Loaded network " + network);
+    }
+
+    // okay let's add all identity pairs to their puppet
+    for (let key in pairs) {
+      this.addIdentityPair(pairs[key]);
     }
     
-    this.bridge.run(this.config.httpserver.port); // start the HTTP bridge
+    // start the HTTP bridge, the room maps of the adapters need its room store
+    await this.bridge.run(this.config.httpserver.port);
+    if (this.config.monitoring) {
+      registerMetricsEndpoint(this.bridge, this.config.monitoring.sharedSecret);
+      registerHealthEndpoints(this.bridge, this, this.config.monitoring.sharedSecret);
+    }
+
+    if (this.config.provisioning) {
+      new ProvisioningApi(this.bridge, this, this.configPath, this.config.provisioning.sharedSecret).register();
+    }
     
     // and now let's trigger the puppets to connect!
     for (let p in this.puppets) {
-      let puppet = this.puppets[p];
-      puppet.startClient(this.configPath).then(() => {
-        puppet.startAdapters();
+      this.startPuppet(this.puppets[p]);
+    }
+
+    process.on('SIGHUP', () => {
+      log.info('got SIGHUP, reloading config');
+      this.reload().then(({ changes, skipped }) => {
+        log.info('reloaded config', changes);
+        if (skipped.length) {
+          log.warn('changes to', skipped.join(', '), 'need a restart, ignored them');
+        }
+      }, (err) => {
+        log.error('failed to reload config', err.message);
+      });
+    });
+
+    for (let signal of ['SIGTERM', 'SIGINT']) {
+      process.on(signal, () => {
+        if (this.shuttingDown) {
+          log.warn('got', signal, 'again, exiting right away');
+          process.exit(1);
+        }
+        log.info('got', signal, 'shutting down');
+        this.shutdown().then(() => {
+          process.exit(0);
+        }, (err) => {
+          log.error('failed to shut down cleanly', err);
+          process.exit(1);
+        });
+      });
+    }
+  }
+
+  /**
+   * Disconnects the puppets and their adapters, and writes what is pending to disk
+   *
+   * @returns {Promise}
+   */
+  public shutdown() : Promise<void> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = Promise.all(this.getPuppets().map((puppet) => {
+        return puppet.stop().catch((err) => {
+          log.warn('failed to stop puppet', puppet.userId, err);
+        });
+      })).then(() => {
+        return Promise.all([ghostCache.close(), messageStore.flush(), messageQueue.flush(), mediaCache.flush()]);
+      }).then(() => {
+        return; // make sure we return Promise<void>
       });
     }
+    return this.shuttingDown;
+  }
+
+  public getPuppets() : Puppet[] {
+    return Object.keys(this.puppets).map(p => this.puppets[p]);
+  }
+
+  public getPuppet(localpart: string) : Puppet {
+    return this.puppets[localpart] || null;
+  }
+
+  public getBase(network: string, identityPairId: string) : Base {
+    for (let p in this.puppets) {
+      const base = this.puppets[p].getBases().find(b => b.getNetwork() === network && b.getIdentityPairId() === identityPairId);
+      if (base) {
+        return base;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Re-reads the config file and applies the changes to users and identity pairs:
+   * new ones are started, removed ones are stopped and changed ones are restarted.
+   * Everything else keeps running.
+   *
+   * @returns {Promise} A promise resolving to the ReloadResult
+   */
+  public reload() : Promise<ReloadResult> {
+    const reload = this.reloadQueue.then(() => this.applyConfig());
+    this.reloadQueue = reload.catch(() => {});
+    return reload;
+  }
+
+  private async applyConfig() : Promise<ReloadResult> {
+    const config = await this.readConfig(this.configPath);
+    const old = this.config;
+    let changes : string[] = [];
+    const skipped = RESTART_ONLY_KEYS.filter(key => JSON.stringify(old[key]) !== JSON.stringify(config[key]));
+    // a changed secrets store is opened on the side, and only used once the config checked out
+    let secrets = secretStore;
+    const secretsChanged = JSON.stringify(old.secrets) !== JSON.stringify(config.secrets);
+    if (secretsChanged) {
+      secrets = new SecretStore();
+      if (config.secrets) {
+        await secrets.open(config.secrets);
+      }
+    }
+    this.checkSecrets(config, secrets);
+
+    // load new networks first, so a broken one doesn't leave us half way
+    for (let network in config.networks) {
+      await this.loadNetwork(network, config.networks[network]);
+    }
+
+    if (secretsChanged) {
+      secretStore.replaceWith(secrets);
+      changes.push(config.secrets ? 'Opened the secrets store '+config.secrets.store : 'Closed the secrets store');
+    }
+
+    // puppets which are (re)started from scratch, together with all their identity pairs
+    let fresh : { [localpart: string]: boolean } = {};
+    for (let u in old.users) {
+      const removed = !(u in config.users);
+      if (!removed && JSON.stringify(old.users[u]) === JSON.stringify(config.users[u])) {
+        continue;
+      }
+      if (!this.puppets[u].canStop()) {
+        // its adapters would keep running next to the new ones
+        skipped.push('puppet '+u);
+      } else if (removed) {
+        await this.puppets[u].stop();
+        delete this.puppets[u];
+        changes.push('Removed puppet '+u);
+      } else {
+        await this.puppets[u].stop();
+        this.createPuppet(u, config.users[u]);
+        fresh[u] = true;
+        changes.push('Restarted puppet '+u);
+      }
+    }
+    for (let u in config.users) {
+      if (!(u in old.users)) {
+        this.createPuppet(u, config.users[u]);
+        fresh[u] = true;
+        changes.push('Added puppet '+u);
+      }
+    }
+
+    const oldPairs = this.getIdentityPairs(old);
+    const newPairs = this.getIdentityPairs(config);
+    const changed = (key) => JSON.stringify(oldPairs[key]) !== JSON.stringify(newPairs[key]);
+    // identity pairs whose adapters can't be stopped, they keep running as they are
+    let kept : { [key: string]: boolean } = {};
+    for (let key in oldPairs) {
+      const { network, ident } = oldPairs[key];
+      if (this.puppets[ident.matrixPuppet] && !fresh[ident.matrixPuppet] && changed(key)) {
+        const base = this.getBase(network, ident.id);
+        if (base && !base.canStop()) {
+          kept[key] = true;
+          skipped.push('identity pair '+key);
+          continue;
+        }
+        await this.puppets[ident.matrixPuppet].removeAdapter(network, ident.id);
+        if (!(key in newPairs)) {
+          changes.push('Removed identity pair '+key);
+        }
+      }
+    }
+    let started : Base[] = [];
+    for (let key in newPairs) {
+      const puppet = newPairs[key].ident.matrixPuppet;
+      if (fresh[puppet]) {
+        this.addIdentityPair(newPairs[key]);
+      } else if (changed(key) && !kept[key]) {
+        started.push(this.addIdentityPair(newPairs[key]));
+        changes.push((key in oldPairs ? 'Restarted' : 'Added')+' identity pair '+key);
+      }
+    }
+
+    this.config = config;
+    for (let u in fresh) {
+      this.startPuppet(this.puppets[u]);
+    }
+    for (let base of started) {
+      // failures are reported to the status room, and retried
+      base.startClient();
+    }
+    return { changes, skipped };
   }
 }
@@ -1,6 +1,11 @@
 import * as fs from 'async-file';
 import * as matrixSdk from 'matrix-js-sdk';
 import { Config, User } from './config';
+import { secretStore, SecretReference } from './secrets';
+import { updateJsonFile } from './json-file';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'associate-token' });
 
 async function read(args): Promise<string> {
   return new Promise<string>((resolve, reject) => {
@@ -19,42 +24,50 @@ export interface TokenAssociationParams {
   token?: string;
 }
 
-async function updateToken(config: Config, params: TokenAssociationParams) {
-  const { localpart, jsonFile, token } = params;
+async function updateToken(config: Config, params: TokenAssociationParams) : Promise<User> {
+  const { localpart, token } = params;
   if (!config.users[localpart]) {
     config.users[localpart] = <User>{};
   }
-  config.users[localpart].token = token;
-  return fs.writeFile(jsonFile, JSON.stringify(config, null, 2)).then(() => {
-    console.log('Updated config file '+jsonFile);
-  });
+  if (config.secrets) {
+    // keep the token out of the config file
+    const name = 'users.'+localpart+'.token';
+    if (!secretStore.isOpen()) {
+      await secretStore.open(config.secrets);
+    }
+    await secretStore.set(name, token);
+    config.users[localpart].token = <SecretReference>{ $secret: name };
+  } else {
+    config.users[localpart].token = token;
+  }
+  return config.users[localpart];
 }
 
 
 /**
  * Prompts user for credentials and updates the puppet section of the config
  *
- * @returns {Promise}
+ * @returns {Promise} A promise resolving to the updated user entry of the config
  */
-export async function associateToken(params: TokenAssociationParams) {
+export async function associateToken(params: TokenAssociationParams) : Promise<User> {
   const { localpart, jsonFile } = params;
-  const buffer : string = await fs.readFile(jsonFile);
-  let config : Config = <Config>JSON.parse(buffer);
-  if (params.token) {
-    return updateToken(config, <TokenAssociationParams>{
-      localpart,
-      jsonFile,
-      token: params.token
-    });
+  let token = params.token;
+  if (!token) {
+    const buffer : string = await fs.readFile(jsonFile);
+    const config : Config = <Config>JSON.parse(buffer);
+    const userId = "@" + localpart + ":" + config.homeserver.domain;
+    console.log("Enter password for " + userId);
+    const password = await read({silent: true, replace: '*'});
+    const matrixClient = matrixSdk.createClient(config.homeserver.url);
+    const accessDat = await matrixClient.loginWithPassword(userId, password);
+    token = accessDat.access_token;
   }
-  const userId = "@" + localpart + ":" + config.homeserver.domain;
-  console.log("Enter password for " + userId);
-  const password = await read({silent: true, replace: '*'});
-  const matrixClient = matrixSdk.createClient(config.homeserver.url);
-  const accessDat = await matrixClient.loginWithPassword(userId, password);
-  return updateToken(config, <TokenAssociationParams>{
+  // like the other changes of the config file, e.g. from the provisioning API
+  const user = await updateJsonFile(jsonFile, (config: Config) => updateToken(config, <TokenAssociationParams>{
     localpart,
     jsonFile,
-    token: accessDat.access_token
-  });
+    token
+  }), 2);
+  log.info('updated config file', jsonFile);
+  return user;
 }
@@ -1,34 +1,56 @@
-const debug = require('debug')('matrix-puppet:debug');
-const info = require('debug')('matrix-puppet:info');
-const warn = require('debug')('matrix-puppet:warn');
-const error = require('debug')('matrix-puppet:error');
 import { Bridge, RemoteUser } from 'matrix-appservice-bridge';
+const matrixSdk = require("matrix-js-sdk");
 import { parse as urlParse} from 'url';
 import { inspect } from 'util';
 import * as path from 'path';
-import { autoTagger, createUploader } from './utils';
 import * as fs from 'async-file';
 
 import { Puppet } from './puppet';
 import { IdentityPair } from './identity-pair';
+import { Backfill, RoomSync } from './config';
 import { BridgeController, ThirdPartyLookup } from './bridge';
 import { Intent } from './intent';
-import { MatrixClient } from './matrix-client';
+import { MatrixClient, SendEventResponse } from './matrix-client';
 import * as tp from 'typed-promisify';
 import { entities } from 'matrix-puppet-bridge';
-import { ghostCache } from './ghost-cache'
-
+import { ghostCache, IdentityPairGhostCache } from './ghost-cache';
+import { RoomMap } from './room-map';
+import { secretStore } from './secrets';
+import { Logger } from './logger';
+import { AdapterSupervisor, AdapterState, StateTransition } from './supervisor';
+import {
+  Labels, messagesBridged, messagesDropped, sendFailures, roomsCreated, ghostProfileUpdates,
+  avatarDownloads, avatarUploads, adapterReconnects, messageLatency
+} from './metrics';
+
+import { messageStore } from './message-store';
+import { messageQueue, QueueDirection, QueueItem } from './message-queue';
+import { getScheduler, RequestScheduler } from './request-scheduler';
+import { EchoGuard } from './echo-guard';
+import { mediaCache, CachedMedia } from './media-cache';
 import {
-  BangCommand, parseBangCommand,
-  
   ThirdPartyAdapter,
   ThirdPartyMessagePayload,
+  ThirdPartyHistoryMessage,
   ThirdPartyImageMessagePayload,
+  ThirdPartyRedactionPayload,
+  ThirdPartyEditPayload,
+  ThirdPartyReactionPayload,
+  ThirdPartyReceiptPayload,
+  ThirdPartyMemberPayload,
+  ThirdPartyMemberRemovalPayload,
+  ThirdPartyRoomMember,
+  ThirdPartyRoomUpdate,
+  PuppetBridge
+} from './adapter';
+
+import {
+  BangCommand, parseBangCommand,
+  
   ContactListUserData,
   
-  download, localdisk, isFilenameTagged,
+  localdisk, isFilenameTagged,
   
-  PuppetBridge,
   StatusMessageOptions,
   
   Image
@@ -41,10 +63,10 @@ interface PrepareMessageHandlerParams {
   avatarUrl: string;
   roomId: string;
   text: string;
+  messageId?: string;
 }
 
 interface MessageHandler {
-  tag(senderId: string): string;
   matrixRoomId: string;
   client: MatrixClient;
   ignore?: boolean;
@@ -56,6 +78,16 @@ interface NewMatrixRoomData {
   createdNeedAvatar?: boolean;
 }
 
+// how long a ghost shows as typing, unless the adapter says it stopped before
+const TYPING_TIMEOUT_MS = 30000;
+
+// messages imported into a new room, unless the network config says otherwise
+const DEFAULT_BACKFILL_LIMIT = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// how often the data of the bridged rooms is fetched again, unless the network config says otherwise
+const DEFAULT_ROOM_SYNC_MINUTES = 60;
+
 const a2b = a => {
   let buf = new Buffer(a);
   let encoded = '';
@@ -110,16 +142,41 @@ export class Base {
   private deduplicationTagPattern: string;
   private deduplicationTagRegex: RegExp;
   private network: string;
-  private thirdPartyRooms: Map<string, string> = new Map<string, string>();
-
-  constructor(identityPair: IdentityPair, network: string, puppet: Puppet, bridge: Bridge, adapterClass: any) {
+  private rooms: RoomMap;
+  private supervisor: AdapterSupervisor;
+  private scheduler: RequestScheduler;
+  private backfill: Backfill;
+  private roomSync: RoomSync;
+  private roomSyncTimer: NodeJS.Timer = null;
+  // the name, topic and avatar URL last set on the matrix room, per third party room
+  private roomStates: { [thirdPartyRoomId: string]: ThirdPartyRoomUpdate } = {};
+  private echoes: EchoGuard = new EchoGuard();
+  private ghosts: IdentityPairGhostCache;
+  private log: Logger;
+  private connectAttempts: number = 0;
+  // whether the members of the rooms were reconciled since the bridge started
+  private membersReconciled: boolean = false;
+
+  constructor(identityPair: IdentityPair, network: string, puppet: Puppet, bridge: Bridge, adapterClass: any, backfill: Backfill = {}, roomSync: RoomSync = {}) {
     this.identityPair = identityPair;
     this.puppet = puppet;
     this.network = network;
+    this.backfill = backfill;
+    this.roomSync = roomSync;
+    this.log = puppet.getLogger().child({ network, identityPair: identityPair.id });
     
     
     this.bridge = bridge;
-    this.adapter = new adapterClass(identityPair.matrixPuppet, identityPair.thirdParty, <PuppetBridge>{
+    this.scheduler = getScheduler(puppet.getHomeserverUrl());
+    this.rooms = new RoomMap(bridge, network, identityPair.id);
+    this.ghosts = ghostCache.forIdentityPair(network, identityPair.id);
+    // before the adapter, which may report its connection state from its constructor
+    this.supervisor = new AdapterSupervisor({
+      describe: () => this.describe(),
+      connect: () => this.connectAdapter(),
+      disconnect: () => this.disconnectAdapter()
+    }, (transition) => this.reportStateTransition(transition));
+    this.adapter = new adapterClass(identityPair.matrixPuppet, secretStore.resolve(identityPair.thirdParty), <PuppetBridge>{
       newUsers: (a) => {
         return this.joinThirdPartyUsersToStatusRoom(a);
       },
@@ -132,20 +189,358 @@ export class Base {
       sendMessage: (a) => {
         return this.handleThirdPartyRoomMessage(a);
       },
+      redactMessage: (a) => {
+        return this.handleThirdPartyRoomRedaction(a);
+      },
+      editMessage: (a) => {
+        return this.handleThirdPartyRoomEdit(a);
+      },
+      addReaction: (a) => {
+        return this.handleThirdPartyRoomReaction(a);
+      },
+      removeReaction: (a) => {
+        return this.handleThirdPartyRoomReactionRemoval(a);
+      },
+      setTyping: (a, b, c) => {
+        return this.handleThirdPartyTyping(a, b, c);
+      },
+      setPresence: (a, b) => {
+        return this.handleThirdPartyPresence(a, b);
+      },
+      setReadReceipt: (a) => {
+        return this.handleThirdPartyReadReceipt(a);
+      },
+      memberJoined: (a) => {
+        return this.handleThirdPartyMemberJoin(a);
+      },
+      memberLeft: (a) => {
+        return this.handleThirdPartyMemberLeave(a);
+      },
+      memberRemoved: (a) => {
+        return this.handleThirdPartyMemberRemoval(a);
+      },
+      updateRoom: (a, b) => {
+        return this.handleThirdPartyRoomUpdate(a, b);
+      },
+      disconnected: (reason) => {
+        this.supervisor.reportDisconnect(reason);
+      },
+      connected: () => {
+        this.supervisor.reportConnected();
+      },
     });
     this.deduplicationTag = this.adapter.deduplicationTag;
     this.deduplicationTagPattern = this.adapter.deduplicationTagPattern;
     this.deduplicationTagRegex = new RegExp(this.deduplicationTagPattern);
-    info('initialized bridge');
+    this.log.info('initialized bridge');
   }
 
-  public startClient() {
-    return this.adapter.initClient().then(() => {
-      this.adapter.startClient();
+  /**
+   * Starts the adapter. If it fails, it is retried in the background and the other adapters keep running.
+   *
+   * @returns {Promise}
+   */
+  public startClient() : Promise<void> {
+    return this.start().catch((err) => {
+      this.log.error('failed to start third party adapter', this.describe(), err);
+    });
+  }
+
+  /**
+   * Loads the room mappings and connects the adapter. Unlike startClient, failures are passed on to the
+   * caller, the adapter is retried in the background anyway.
+   *
+   * @returns {Promise}
+   */
+  public start() : Promise<void> {
+    return this.rooms.load().then(() => {
+      // messages to the third party network wait for the adapter, see reportStateTransition
+      messageQueue.pause(this.describe(), 'to_remote');
+      messageQueue.register(this.describe(), (item) => {
+        return this.sendQueueItem(item);
+      }, (item, err) => {
+        this.reportQueueFailure(item, err);
+      });
+      return this.supervisor.start();
+    });
+  }
+
+  /**
+   * Disconnects the adapter, e.g. because its identity pair was removed from the config
+   *
+   * @returns {Promise}
+   */
+  public stop() : Promise<void> {
+    this.log.info('stopping', this.describe());
+    if (!this.canStop()) {
+      this.log.warn('the adapter of', this.describe(), 'has no stopClient, it keeps running until the bridge is restarted');
+    }
+    messageQueue.unregister(this.describe());
+    if (this.roomSyncTimer) {
+      clearInterval(this.roomSyncTimer);
+      this.roomSyncTimer = null;
+    }
+    return this.supervisor.stop();
+  }
+
+  /**
+   * Whether the adapter can be stopped, without stopClient it keeps running after stop
+   */
+  public canStop() : boolean {
+    return !!this.adapter.stopClient;
+  }
+
+  /**
+   * Queues a message or other room event, to be bridged in order with the others of its room
+   *
+   * @param {string} direction
+   * @param {string} thirdPartyRoomId The encoded third party room ID
+   * @param {string} kind What to do with the payload, see handleQueueItem
+   * @param {object} payload JSON serializable
+   * @returns {Promise} Resolves once bridged, rejects if given up
+   */
+  private enqueue(direction: QueueDirection, thirdPartyRoomId: string, kind: string, payload: any) : Promise<void> {
+    return messageQueue.push(this.describe(), direction, thirdPartyRoomId, kind, payload);
+  }
+
+  /**
+   * One attempt at bridging a queued item, failed ones are counted even if a retry succeeds
+   *
+   * @returns {Promise}
+   */
+  private sendQueueItem(item: QueueItem) : Promise<void> {
+    return Promise.resolve().then(() => {
+      return this.handleQueueItem(item);
     }).catch((err) => {
-      console.log("Fatal error starting third party adapter");
-      console.error(err);
-      process.exit(-1);
+      sendFailures.inc(this.metricLabels({ direction: item.direction }));
+      return Promise.reject(err);
+    });
+  }
+
+  private handleQueueItem(item: QueueItem) : Promise<void> {
+    const { payload } = item;
+    switch (item.kind) {
+      case 'message':
+        return this.deliverThirdPartyRoomMessage(payload, item.enqueuedAt);
+      case 'image':
+        return this.deliverThirdPartyRoomImageMessage(payload);
+      case 'redaction':
+        return this.deliverThirdPartyRoomRedaction(payload);
+      case 'edit':
+        return this.deliverThirdPartyRoomEdit(payload);
+      case 'reaction':
+        return this.deliverThirdPartyRoomReaction(payload);
+      case 'reaction_removal':
+        return this.deliverThirdPartyRoomReactionRemoval(payload);
+      case 'member_join':
+        return this.deliverThirdPartyMemberJoin(payload);
+      case 'member_leave':
+        return this.deliverThirdPartyMemberLeave(payload);
+      case 'member_removal':
+        return this.deliverThirdPartyMemberRemoval(payload);
+      case 'member_sync':
+        return this.reconcileRoomMembers(item.room, this.rooms.getMatrixRoomId(item.room));
+      case 'room_update':
+        return this.deliverThirdPartyRoomUpdate(payload);
+      case 'room_sync':
+        return this.syncRoom(item.room);
+      case 'matrix_message':
+        return this.deliverMatrixMessageEvent(payload, item.room);
+      case 'matrix_redaction':
+        return this.deliverMatrixRedactionEvent(payload, item.room);
+      case 'matrix_reaction':
+        return this.deliverMatrixReactionEvent(payload, item.room);
+    }
+    return Promise.reject(new Error('unknown queue item '+item.kind));
+  }
+
+  private reportQueueFailure(item: QueueItem, err) {
+    if (item.kind === 'image' && item.payload.mediaHash) {
+      mediaCache.discardStaged(item.payload.mediaHash);
+    }
+    messagesDropped.inc(this.metricLabels({ direction: item.direction }));
+    const where = item.direction === 'to_matrix' ? 'to matrix' : 'to '+this.network;
+    this.sendStatusMsg({}, 'Gave up bridging a '+item.kind+' '+where+' in room '+b2a(item.room)+
+      ' after '+item.attempts+' attempts:', err).catch((statusErr) => {
+      this.log.warn('failed to report a dropped '+item.kind, statusErr);
+    });
+  }
+
+  /**
+   * A logger tagged with a bridged room, given either by its matrix or its (encoded) third party room ID
+   */
+  private roomLog(room: { matrixRoomId?: string, thirdPartyRoomId?: string }) : Logger {
+    const thirdPartyRoomId = room.thirdPartyRoomId || this.rooms.getThirdPartyRoomId(room.matrixRoomId);
+    return this.log.child({
+      matrixRoomId: room.matrixRoomId || this.rooms.getMatrixRoomId(thirdPartyRoomId),
+      thirdPartyRoomId: thirdPartyRoomId ? b2a(thirdPartyRoomId) : undefined
+    });
+  }
+
+  /**
+   * Labels for the metrics of this base
+   */
+  private metricLabels(extra: Labels = {}) : Labels {
+    return { network: this.network, identity_pair: this.identityPair.id, ...extra };
+  }
+
+  private connectAdapter() : Promise<void> {
+    if (this.connectAttempts++ > 0) {
+      adapterReconnects.inc(this.metricLabels());
+    }
+    return this.adapter.initClient().then(() => {
+      return this.adapter.startClient();
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  private disconnectAdapter() : Promise<void> {
+    if (!this.adapter.stopClient) {
+      return Promise.resolve();
+    }
+    return Promise.resolve(this.adapter.stopClient());
+  }
+
+  private reportStateTransition(transition: StateTransition) {
+    if (transition.to === 'connected') {
+      messageQueue.resume(this.describe(), 'to_remote');
+    } else {
+      messageQueue.pause(this.describe(), 'to_remote');
+    }
+    if (transition.to === 'connected' && !this.membersReconciled) {
+      this.membersReconciled = true;
+      this.reconcileAllRoomMembers();
+      this.startRoomSync();
+    }
+    let text = this.describe()+' is '+transition.to;
+    if (transition.reason) {
+      text += ': '+transition.reason;
+    }
+    if (transition.retryInMs !== undefined) {
+      text += ', retrying in '+Math.round(transition.retryInMs / 1000)+'s';
+    }
+    this.sendStatusMsg({}, text).catch((err) => {
+      this.log.warn('failed to report the state of', this.describe(), err);
+    });
+  }
+
+  public getConnectionState() : AdapterState {
+    return this.supervisor.getState();
+  }
+
+  public getNetwork() : string {
+    return this.network;
+  }
+
+  public getIdentityPairId() : string {
+    return this.identityPair.id;
+  }
+
+  /**
+   * Human readable name of this base, as used to address it in the status room
+   */
+  public describe() : string {
+    return this.network+'/'+this.identityPair.id;
+  }
+
+  /**
+   * Checks if a status room command target ('identityPairId' or 'network/identityPairId') names this base
+   */
+  public matchesTarget(target: string) : boolean {
+    return target === this.identityPair.id || target === this.describe();
+  }
+
+  public isStatusRoom(matrixRoomId: string) : boolean {
+    // known without the puppet client, so it still works while its token is revoked
+    const statusRoomId = this.statusRoomId || this.rooms.getStatusRoomId();
+    if (statusRoomId) {
+      return matrixRoomId === statusRoomId;
+    }
+    return this.getThirdPartyRoomIdFromMatrixRoomId(matrixRoomId) === 'status_room';
+  }
+
+  /**
+   * Reconnects the third party adapter. Unlike startClient, failures are passed on to the caller.
+   *
+   * @returns {Promise}
+   */
+  public reconnect() : Promise<void> {
+    this.log.info('reconnecting', this.describe());
+    return this.supervisor.restart();
+  }
+
+  /**
+   * Logs the adapter out of the third party network. It stays offline until reconnected.
+   *
+   * @returns {Promise}
+   */
+  public logout() : Promise<void> {
+    this.log.info('logging out', this.describe());
+    if (this.adapter.logout) {
+      return this.supervisor.stop(() => Promise.resolve(this.adapter.logout()));
+    }
+    return this.supervisor.stop();
+  }
+
+  /**
+   * Joins the full contact list of the adapter to the status room
+   *
+   * @returns {Promise}
+   */
+  public syncContacts() : Promise<void> {
+    if (!this.adapter.getContacts) {
+      return Promise.reject(new Error(this.describe()+" doesn't support syncing contacts"));
+    }
+    return Promise.resolve(this.adapter.getContacts()).then((users) => {
+      return this.joinThirdPartyUsersToStatusRoom(users);
+    });
+  }
+
+  /**
+   * Lists the bridged rooms currently known to this base
+   *
+   * @returns {string[]} One line per room
+   */
+  public listRooms() : string[] {
+    return this.rooms.entries().map(({ matrixRoomId, thirdPartyRoomId }) => {
+      return matrixRoomId+' <-> '+b2a(thirdPartyRoomId);
+    });
+  }
+
+  /**
+   * Unlinks a bridged room: its alias is removed, so the next message from the
+   * third party room will create a fresh matrix room.
+   *
+   * @param {string} room The matrix room ID or alias, or the third party room ID
+   * @returns {Promise} Resolves to false if the room doesn't belong to this base
+   */
+  public unlinkRoom(room: string) : Promise<boolean> {
+    const puppetClient = this.getPuppetClient();
+    let matrixRoomIdPromise : Promise<string>;
+    if (room[0] === '#') {
+      matrixRoomIdPromise = puppetClient.getRoomIdForAlias(room).then(({room_id}) => room_id, () => null);
+    } else if (room[0] === '!') {
+      matrixRoomIdPromise = Promise.resolve(room);
+    } else {
+      matrixRoomIdPromise = Promise.resolve(this.rooms.getMatrixRoomId(a2b(room)));
+    }
+    return matrixRoomIdPromise.then((matrixRoomId) => {
+      if (!matrixRoomId) {
+        return false;
+      }
+      const thirdPartyRoomId = this.getThirdPartyRoomIdFromMatrixRoomId(matrixRoomId);
+      if (!thirdPartyRoomId || thirdPartyRoomId === 'status_room') {
+        return false;
+      }
+      this.log.info('unlinking', matrixRoomId, 'from', thirdPartyRoomId);
+      delete this.roomGhostMap[matrixRoomId];
+      const botClient = this.getIntentFromApplicationServerBot().getClient();
+      return botClient.deleteAlias(this.getRoomAliasFromThirdPartyRoomId(thirdPartyRoomId)).catch((err) => {
+        this.log.warn('failed to delete alias while unlinking', err.message);
+      }).then(() => {
+        return this.rooms.remove(thirdPartyRoomId);
+      }).then(() => true);
     });
   }
 
@@ -163,74 +558,91 @@ export class Base {
     if (!force && this.statusRoomId) {
       return Promise.resolve(this.statusRoomId);
     }
+    if (!force && !_roomAliasLocalPart && this.rooms.getStatusRoomId()) {
+      this.statusRoomId = this.rooms.getStatusRoomId();
+      return Promise.resolve(this.statusRoomId);
+    }
     const roomAliasLocalPart = _roomAliasLocalPart || this.getStatusRoomLocalpart();
     const roomAlias = this.puppet.makeRoomAlias(roomAliasLocalPart);
-    const puppetClient = this.puppet.getClient();
+    const puppetClient = this.getPuppetClient();
 
+    // the bot looks up and creates the room, the puppet client may be logged out
     const botIntent = this.getIntentFromApplicationServerBot();
     const botClient = botIntent.getClient();
 
-    const puppetUserId = puppetClient.credentials.userId;
+    const puppetUserId = this.puppet.userId;
 
     const grantPuppetMaxPowerLevel = (room_id) => {
-      info("ensuring puppet user has full power over this room");
+      this.log.info("ensuring puppet user has full power over this room");
       return botIntent.setPowerLevel(room_id, puppetUserId, 100).then(()=>{
-        info('granted puppet client admin status on the protocol status room');
+        this.log.info('granted puppet client admin status on the protocol status room');
       }).catch((err)=>{
-        warn(err);
-        warn('ignoring failed attempt to give puppet client admin on the status room');
+        this.log.warn(err);
+        this.log.warn('ignoring failed attempt to give puppet client admin on the status room');
       }).then(()=> {
         return room_id;
       });
     };
 
-    info('looking up', roomAlias);
-    return puppetClient.getRoomIdForAlias(roomAlias).then(({room_id}) => {
-      info("found matrix room via alias. room_id:", room_id);
+    this.log.info('looking up', roomAlias);
+    return botClient.getRoomIdForAlias(roomAlias).then(({room_id}) => {
+      this.log.info("found matrix room via alias. room_id:", room_id);
       return grantPuppetMaxPowerLevel(room_id);
     }, (_err) => {
       const name = "Puppet Status Room";
       const topic = "Puppet Status Messages";
-      info("creating status room !!!!", ">>>>"+roomAliasLocalPart+"<<<<", name, topic);
+      this.log.info("creating status room !!!!", ">>>>"+roomAliasLocalPart+"<<<<", name, topic);
       return botIntent.createRoom({
         createAsClient: false,
         options: {
           name,
           topic,
-          room_alias_name: roomAliasLocalPart
+          room_alias_name: roomAliasLocalPart,
+          invite: [puppetUserId]
         }
       }).then(({room_id}) => {
-        return this.puppet.client.setRoomTag(room_id, 'm.lowpriority', {}).then(() => {
+        return puppetClient.setRoomTag(room_id, 'm.lowpriority', {}).then(() => {
           if (this.adapter.serviceIconPath) {
             return this.setRoomAvatarFromDisk(room_id, this.adapter.serviceIconPath).then(()=>room_id);
           }
           return room_id;
         }).catch(err => {
-          error(err);
+          this.log.error(err);
           return room_id;
         });
       });
     }).then(matrixRoomId => {
-      info("making puppet join protocol status room", matrixRoomId);
+      this.log.info("making puppet join protocol status room", matrixRoomId);
       return puppetClient.joinRoom(matrixRoomId).then(() => {
-        info("puppet joined the protocol status room");
-        this.statusRoomId = matrixRoomId;
+        this.log.info("puppet joined the protocol status room");
+        this.rememberStatusRoom(matrixRoomId, _roomAliasLocalPart);
         return grantPuppetMaxPowerLevel(matrixRoomId);
       }, (err) => {
         if (err.message === 'No known servers') {
-          warn('we cannot use this room anymore because you cannot currently rejoin an empty room (synapse limitation? riot throws this error too). we need to de-alias it now so a new room gets created that we can actually use.');
+          this.log.warn('we cannot use this room anymore because you cannot currently rejoin an empty room (synapse limitation? riot throws this error too). we need to de-alias it now so a new room gets created that we can actually use.');
           return botClient.deleteAlias(roomAlias).then(()=>{
-            warn('deleted alias... trying again to get or create room.');
+            this.log.warn('deleted alias... trying again to get or create room.');
             return this.getStatusRoomId(_roomAliasLocalPart, true);
           });
         } else {
-          warn("ignoring error from puppet join room: ", err.message);
-          return matrixRoomId;
+          // e.g. its token was revoked, it is invited and joins once it is logged in again
+          this.log.warn("ignoring error from puppet join room: ", err.message);
+          return this.rememberStatusRoom(matrixRoomId, _roomAliasLocalPart);
         }
       });
     });
   }
 
+  private rememberStatusRoom(matrixRoomId: string, roomAliasLocalPart: string) : string {
+    this.statusRoomId = matrixRoomId;
+    if (!roomAliasLocalPart) {
+      this.rooms.setStatusRoom(matrixRoomId).catch((err) => {
+        this.log.warn('failed to remember the status room', matrixRoomId, err.message);
+      });
+    }
+    return matrixRoomId;
+  }
+
   /**
    * Make a list of third party users join the status room
    *
@@ -242,7 +654,7 @@ export class Base {
    * @returns {Promise} Promise resolving if all joins success
    */
   public joinThirdPartyUsersToStatusRoom(users: Array<ContactListUserData>) {
-    info("Join %s users to the status room", users.length);
+    this.log.info("Join %s users to the status room", users.length);
     return this.getStatusRoomId().then(statusRoomId => {
       return tp.map(users, (user) => {
         return this.getIntentFromThirdPartySenderId(a2b(user.userId), user.name, user.avatarUrl)
@@ -251,7 +663,7 @@ export class Base {
         });
       });
     }).then(() => {
-      info("Contact list synced");
+      this.log.info("Contact list synced");
     });
   }
 
@@ -281,18 +693,18 @@ export class Base {
       }
     }, '');
 
-    info('sending status message', args);
+    this.log.info('sending status message', args);
 
     return this.getStatusRoomId(options.roomAliasLocalPart).then(statusRoomId => {
-      var botIntent = this.bridge.getIntent();
+      var botIntent = this.getIntent();
       if (botIntent === null) {
-        warn('cannot send a status message before the bridge is ready');
+        this.log.warn('cannot send a status message before the bridge is ready');
         return Promise.resolve();
       }
       let promiseList = [];
 
       promiseList.push(new Promise((resolve, reject) => {
-        info("joining protocol bot to room >>>", statusRoomId, "<<<");
+        this.log.info("joining protocol bot to room >>>", statusRoomId, "<<<");
         return resolve(botIntent.join(statusRoomId));
       }));
 
@@ -301,12 +713,11 @@ export class Base {
       //promiseList.push(() => botIntent.setDisplayName(this.getServiceName() + " Bot"));
 
       promiseList.push(new Promise((resolve, reject) => {
-        let txt = this.tagMatrixMessage(msgText); // <-- Important! Or we will cause message looping...
         if(options.fixedWidthOutput)
         {
           return resolve(botIntent.sendMessage(statusRoomId, {
-            body: txt,
-            formatted_body: "<pre><code>" + entities.encode(txt) + "</code></pre>",
+            body: msgText,
+            formatted_body: "<pre><code>" + entities.encode(msgText) + "</code></pre>",
             format: "org.matrix.custom.html",
             msgtype: "m.notice"
           }));
@@ -314,7 +725,7 @@ export class Base {
         else
         {
           return resolve(botIntent.sendMessage(statusRoomId, {
-            body: txt,
+            body: msgText,
             msgtype: "m.notice"
           }));
         }
@@ -326,6 +737,19 @@ export class Base {
     });
   }
 
+  /**
+   * Redacts an event in the status room as the bridge bot, e.g. a message holding a password.
+   * This works even while the puppet is logged out
+   *
+   * @returns {Promise}
+   */
+  public redactStatusRoomEvent(matrixRoomId: string, eventId: string) : Promise<void> {
+    const botClient = this.getIntentFromApplicationServerBot().getClient();
+    return botClient.redactEvent(matrixRoomId, eventId).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
   private getGhostUserFromThirdPartySenderId(id) {
     return this.puppet.makeUserAlias(this.getRoomAliasLocalPartFromThirdPartyRoomId(id));
   }
@@ -335,11 +759,21 @@ export class Base {
   }
 
   private getThirdPartyRoomIdFromMatrixRoomId(matrixRoomId) {
+    if (matrixRoomId === (this.statusRoomId || this.rooms.getStatusRoomId())) {
+      return 'status_room';
+    }
+    const mapped = this.rooms.getThirdPartyRoomId(matrixRoomId);
+    if (mapped) {
+      return mapped;
+    }
     const patt = new RegExp(`^#${this.network}_puppet_${this.identityPair.id}_([a-zA-Z0-9+\\/=_]+)$`);
-    const room = this.puppet.getClient().getRoom(matrixRoomId);
-    info('reducing array of alases to a 3prid');
+    const room = this.getPuppetClient().getRoom(matrixRoomId);
+    if (!room) {
+      return null;
+    }
+    this.log.info('reducing array of alases to a 3prid');
     let status = '#'+this.getStatusRoomLocalpart();
-    return room.getAliases().reduce((result, alias) => {
+    const thirdPartyRoomId = room.getAliases().reduce((result, alias) => {
       const localpart = alias.split(':')[0];
       if (localpart == status) {
         return 'status_room';
@@ -347,6 +781,13 @@ export class Base {
       const matches = localpart.match(patt);
       return matches ? matches[1] : result;
     }, null);
+    if (thirdPartyRoomId && thirdPartyRoomId !== 'status_room') {
+      // rooms bridged before the room map was persisted only show up here, so remember them
+      this.rooms.set(thirdPartyRoomId, matrixRoomId).catch((err) => {
+        this.log.warn('failed to remember room', matrixRoomId, err.message);
+      });
+    }
+    return thirdPartyRoomId;
   }
   private getRoomAliasLocalPartFromThirdPartyRoomId(id) {
     return this.network+"_puppet_"+this.identityPair.id+"_"+id;
@@ -365,7 +806,7 @@ export class Base {
 
   private getIntentFromThirdPartySenderId(userId: string, name?: string, avatarUrl?: string, matrixRoomData?: NewMatrixRoomData) : Promise<Intent> {
     const ghostUserId = this.getGhostUserFromThirdPartySenderId(userId);
-    const ghostIntent = this.bridge.getIntent(ghostUserId);
+    const ghostIntent = this.getIntent(ghostUserId);
     const botClient = this.getIntentFromApplicationServerBot().getClient();
     // TODO: cache name & avatarUrl of ghost locally
 
@@ -373,20 +814,21 @@ export class Base {
     
     if (matrixRoomData && matrixRoomData.matrixRoomId) {
       if (matrixRoomData.createdNeedName) {
-        promiseList.push(ghostCache.associateName(ghostUserId, matrixRoomData.matrixRoomId));
+        promiseList.push(this.ghosts.associateName(ghostUserId, matrixRoomData.matrixRoomId));
       }
       if (matrixRoomData.createdNeedAvatar) {
-        promiseList.push(ghostCache.associateAvatarUrl(ghostUserId, matrixRoomData.matrixRoomId));
+        promiseList.push(this.ghosts.associateAvatarUrl(ghostUserId, matrixRoomData.matrixRoomId));
       }
     }
     
     let updatenamePromise = (should: boolean, _name: string) => {
       if (should) {
-        info("Updating display name for", ghostUserId);
+        this.log.info("Updating display name for", ghostUserId);
         return ghostIntent.setDisplayName(_name).then(() => {
-          return ghostCache.updateName(ghostUserId, _name);
+          ghostProfileUpdates.inc(this.metricLabels({ field: 'name' }));
+          return this.ghosts.updateName(ghostUserId, _name);
         }).then(() => {
-          return ghostCache.getAssociatedNames(ghostUserId);
+          return this.ghosts.getAssociatedNames(ghostUserId);
         }).then((matrixRoomIds) => {
           let namePromiseList = [];
           matrixRoomIds.forEach((roomId) => {
@@ -400,17 +842,17 @@ export class Base {
       return Promise.resolve();
     };
     if (name) {
-      promiseList.push(ghostCache.shouldUpdateName(ghostUserId, name).then((should) => {
+      promiseList.push(this.ghosts.shouldUpdateName(ghostUserId, name).then((should) => {
         return updatenamePromise(should, name);
       }));
     } else {
-      promiseList.push(ghostCache.hasName(ghostUserId).then((has) => {
+      promiseList.push(this.ghosts.hasName(ghostUserId).then((has) => {
         if (has) {
           return;
         }
         return this.getOrInitRemoteUserStoreDataFromThirdPartyUserId(userId).then((remoteUser)=>{
           let _name = remoteUser.get('name');
-          return ghostCache.shouldUpdateName(ghostUserId, _name).then((should) => {
+          return this.ghosts.shouldUpdateName(ghostUserId, _name).then((should) => {
             return updatenamePromise(should, _name);
           })
         });
@@ -419,20 +861,34 @@ export class Base {
 
     let updateavatarPromise = (should: boolean, _url: string) => {
       if (should) {
-        info("Updating avatar for", ghostUserId);
+        this.log.info("Updating avatar for", ghostUserId);
         let contentUri = '';
-        return this.setGhostAvatar(ghostIntent, _url).then((avatar_url) => {
+        let previousUri : string = null;
+        return this.ghosts.getAvatarContentUri(ghostUserId).then((uri) => {
+          previousUri = uri;
+          return this.setGhostAvatar(ghostIntent, _url, previousUri);
+        }).then((avatar_url) => {
           if (!avatar_url) {
             return Promise.reject(new Error("Couldn't upload avatar!"));
           }
           contentUri = avatar_url;
+          if (contentUri !== previousUri) {
+            ghostProfileUpdates.inc(this.metricLabels({ field: 'avatar' }));
+          }
           // TODO: set private room name avatars
-          return ghostCache.updateAvatarUrl(ghostUserId, _url);
+          return this.ghosts.updateAvatarUrl(ghostUserId, _url).then(() => {
+            return this.ghosts.updateAvatarContentUri(ghostUserId, contentUri);
+          });
         }).then(() => {
-          return ghostCache.getAssociatedAvatarurls(ghostUserId);
+          if (contentUri === previousUri) {
+            // a new URL of the same image, e.g. a signed one, only a room created just now lacks it
+            const created = matrixRoomData && matrixRoomData.matrixRoomId && matrixRoomData.createdNeedAvatar;
+            return created ? [matrixRoomData.matrixRoomId] : [];
+          }
+          return this.ghosts.getAssociatedAvatarurls(ghostUserId);
         }).then((matrixRoomIds) => {
           let avatarPromiseList = [];
-          debug(contentUri);
+          this.log.debug(contentUri);
           matrixRoomIds.forEach((roomId) => {
             avatarPromiseList.push(botClient.sendStateEvent(roomId, 'm.room.avatar', { url: contentUri }, ''));
           });
@@ -450,17 +906,17 @@ export class Base {
       return Promise.resolve();
     }
     if (avatarUrl) { // this.setGhostAvatar(ghostIntent, avatarUrl)
-      promiseList.push(ghostCache.shouldUpdateAvatarUrl(ghostUserId, avatarUrl).then((should) => {
+      promiseList.push(this.ghosts.shouldUpdateAvatarUrl(ghostUserId, avatarUrl).then((should) => {
         return updateavatarPromise(should, avatarUrl);
       }));
     } else {
-      promiseList.push(ghostCache.hasAvatarUrl(ghostUserId).then((has) => {
+      promiseList.push(this.ghosts.hasAvatarUrl(ghostUserId).then((has) => {
         if (has) {
           return;
         }
         return this.getOrInitRemoteUserStoreDataFromThirdPartyUserId(userId).then((remoteUser)=>{
           let _url = remoteUser.get('avatarUrl');
-          return ghostCache.shouldUpdateAvatarUrl(ghostUserId, _url).then((should) => {
+          return this.ghosts.shouldUpdateAvatarUrl(ghostUserId, _url).then((should) => {
             return updateavatarPromise(should, _url);
           })
         });
@@ -473,7 +929,22 @@ export class Base {
   }
 
   private getIntentFromApplicationServerBot() : Intent {
-    return this.bridge.getIntent();
+    return this.getIntent();
+  }
+
+  /**
+   * The intent of a ghost, or of the bot if no user ID is given. Its requests,
+   * including those of its client, go through the scheduler of the homeserver.
+   */
+  private getIntent(userId?: string) {
+    return this.scheduler.wrap(this.bridge.getIntent(userId));
+  }
+
+  /**
+   * The client of the puppet, its requests go through the scheduler of the homeserver
+   */
+  private getPuppetClient() : MatrixClient {
+    return this.scheduler.wrap(this.puppet.getClient());
   }
 
   /**
@@ -490,12 +961,12 @@ export class Base {
     const userStore = this.bridge.getUserStore();
     return userStore.getRemoteUser(thirdPartyUserId).then(rUser=>{
       if ( rUser ) {
-        info("found existing remote user in store", rUser);
+        this.log.info("found existing remote user in store", rUser);
         return rUser;
       } else {
-        info("did not find existing remote user in store, we must create it now");
+        this.log.info("did not find existing remote user in store, we must create it now");
         return this.adapter.getUserData(b2a(thirdPartyUserId)).then(thirdPartyUserData => {
-          info("got 3p user data:", thirdPartyUserData);
+          this.log.info("got 3p user data:", thirdPartyUserData);
           return new RemoteUser(thirdPartyUserId, thirdPartyUserData);
         }).then(rUser => {
           return userStore.setRemoteUser(rUser);
@@ -509,33 +980,33 @@ export class Base {
   }
 
   private getOrCreateMatrixRoomFromThirdPartyRoomId(thirdPartyRoomId: string, force = false, ghostId?: string) : Promise<NewMatrixRoomData> {
-    if (!force && (thirdPartyRoomId in this.thirdPartyRooms)) {
+    if (!force && this.rooms.getMatrixRoomId(thirdPartyRoomId)) {
       return new Promise<NewMatrixRoomData>((resolve, reject) => {
         resolve(<NewMatrixRoomData>{
-          matrixRoomId: this.thirdPartyRooms[thirdPartyRoomId],
+          matrixRoomId: this.rooms.getMatrixRoomId(thirdPartyRoomId),
         });
       })
     }
     const roomAlias = this.getRoomAliasFromThirdPartyRoomId(thirdPartyRoomId);
     const roomAliasName = this.getRoomAliasLocalPartFromThirdPartyRoomId(thirdPartyRoomId);
-    info('looking up', thirdPartyRoomId, '('+roomAlias+')');
-    const puppetClient = this.puppet.getClient();
+    this.log.info('looking up', thirdPartyRoomId, '('+roomAlias+')');
+    const puppetClient = this.getPuppetClient();
     const botIntent = this.getIntentFromApplicationServerBot();
     const botClient = botIntent.getClient();
     const puppetUserId = puppetClient.credentials.userId;
     let ghostIntent: Intent = null;
     if (ghostId) {
       ghostId = this.getGhostUserFromThirdPartySenderId(ghostId)
-      ghostIntent = this.bridge.getIntent(ghostId);
+      ghostIntent = this.getIntent(ghostId);
     }
 
     const grantPuppetMaxPowerLevel = (room_id) => {
-      info("ensuring puppet user has full power over this room");
+      this.log.info("ensuring puppet user has full power over this room");
       return botIntent.setPowerLevel(room_id, puppetUserId, 100).then(()=>{
-        info('granted puppet client admin status on the protocol status room');
+        this.log.info('granted puppet client admin status on the protocol status room');
       }).catch((err)=>{
-        warn(err);
-        warn('ignoring failed attempt to give puppet client admin on the status room');
+        this.log.warn(err);
+        this.log.warn('ignoring failed attempt to give puppet client admin on the status room');
       }).then(()=> {
         return room_id;
       });
@@ -574,16 +1045,17 @@ export class Base {
     
     let _createdNeedName = false;
     let _createdNeedAvatar = false;
+    let _created = false;
     
-    return puppetClient.getRoomIdForAlias(roomAlias).then(({room_id}) => {
-      info("found matrix room via alias. room_id:", room_id);
+    return botClient.getRoomIdForAlias(roomAlias).then(({room_id}) => {
+      this.log.info("found matrix room via alias. room_id:", room_id);
       return room_id;
     }, (_err) => {
-      info("the room doesn't exist. we need to create it for the first time");
+      this.log.info("the room doesn't exist. we need to create it for the first time");
       return Promise.resolve(this.adapter.getRoomData(b2a(thirdPartyRoomId))).then(thirdPartyRoomData => {
-        info("got 3p room data", thirdPartyRoomData);
+        this.log.info("got 3p room data", thirdPartyRoomData);
         const { name, topic, avatarUrl, isDirect } = thirdPartyRoomData;
-        info("creating room !!!!", ">>>>"+roomAliasName+"<<<<", name, topic);
+        this.log.info("creating room !!!!", ">>>>"+roomAliasName+"<<<<", name, topic);
         if (!name) {
           _createdNeedName = true;
         }
@@ -600,27 +1072,29 @@ export class Base {
         }
         inviteArray.push(puppetUserId);
         
-        debug(inviteArray);
+        this.log.debug(inviteArray);
         return botClient.createRoom({
             name,
             topic,
             visibility: 'private',
             invite: inviteArray
         }).then(({room_id}) => {
-          info("room created", room_id);
+          this.log.info("room created", room_id);
+          roomsCreated.inc(this.metricLabels());
+          _created = true;
           let promiseList = [];
           promiseList.push(botIntent.createAlias(roomAlias, room_id));
           
           if (ghostIntent) {
             promiseList.push(ghostIntent.getClient().joinRoom(room_id));
             promiseList.push(botClient.setPowerLevel(room_id, ghostId, 100).catch(err => {
-              warn('Failed to make ghost an admin');
+              this.log.warn('Failed to make ghost an admin');
             }));
           }
           
           promiseList.push(puppetClient.joinRoom(room_id));
           promiseList.push(botClient.setPowerLevel(room_id, puppetUserId, 100).catch(err => {
-            warn('Failed to make ourself an admin');
+            this.log.warn('Failed to make ourself an admin');
           }));
           
           if (avatarUrl) {
@@ -641,15 +1115,17 @@ export class Base {
     }).then(matrixRoomId => {
       // we still do this to verify if the puppet is in the room
       // if the puppet isn't in the room then we need to abort it as we lost control over it
-      info("making puppet join room", matrixRoomId);
+      this.log.info("making puppet join room", matrixRoomId);
       return puppetClient.joinRoom(matrixRoomId).then(()=>{
-        info("returning room id after join room attempt", matrixRoomId);
+        this.log.info("returning room id after join room attempt", matrixRoomId);
         return matrixRoomId;
       }, (err) => {
         if ( err.message === 'No known servers' ) {
-          warn('we cannot use this room anymore because you cannot currently rejoin an empty room (synapse limitation? riot throws this error too). we need to de-alias it now so a new room gets created that we can actually use.');
+          this.log.warn('we cannot use this room anymore because you cannot currently rejoin an empty room (synapse limitation? riot throws this error too). we need to de-alias it now so a new room gets created that we can actually use.');
           return botClient.deleteAlias(roomAlias).then(()=>{
-            warn('deleted alias... trying again to get or create room.');
+            this.log.warn('deleted alias... trying again to get or create room.');
+            return this.rooms.remove(thirdPartyRoomId);
+          }).then(()=>{
             return this.getOrCreateMatrixRoomFromThirdPartyRoomId(thirdPartyRoomId, true).then(({ matrixRoomId, createdNeedName, createdNeedAvatar }) => {
               _createdNeedName = createdNeedName;
               _createdNeedAvatar = createdNeedAvatar;
@@ -657,20 +1133,28 @@ export class Base {
             });
           });
         } else {
-          warn("ignoring error from puppet join room: ", err.message);
+          this.log.warn("ignoring error from puppet join room: ", err.message);
           return matrixRoomId;
         }
       });
     }).then(matrixRoomId => {
-      // the naming scheme is significantly different, we would never collide so we might as well use the same map for both directions
-      this.thirdPartyRooms[matrixRoomId] = thirdPartyRoomId;
-      this.thirdPartyRooms[thirdPartyRoomId] = matrixRoomId;
-      
-      return <NewMatrixRoomData>{
-        matrixRoomId,
-        createdNeedName: _createdNeedName,
-        createdNeedAvatar: _createdNeedAvatar,
-      };
+      return this.rooms.set(thirdPartyRoomId, matrixRoomId).then(() => {
+        if (!_created) {
+          return;
+        }
+        // before the message that made us create the room, so the history comes first
+        return this.reconcileRoomMembers(thirdPartyRoomId, matrixRoomId).catch((err) => {
+          this.log.warn('failed to reconcile members of the new room', err);
+        }).then(() => {
+          return this.backfillRoom(thirdPartyRoomId, matrixRoomId);
+        });
+      }).then(() => {
+        return <NewMatrixRoomData>{
+          matrixRoomId,
+          createdNeedName: _createdNeedName,
+          createdNeedAvatar: _createdNeedAvatar,
+        };
+      });
     });
   }
 
@@ -691,10 +1175,10 @@ export class Base {
       this.roomGhostMap[roomId].push(ghostId);
     }).then(() => {
       return botClient.setPowerLevel(roomId, ghostId, 100).then(() => {
-        info('granted ghost max power level');
+        this.log.info('granted ghost max power level');
       }).catch((err) => {
-        warn(err);
-        warn('Ignorning granting ghost power');
+        this.log.warn(err);
+        this.log.warn('Ignorning granting ghost power');
       });
     });
     return botClient.invite(roomId, ghostId).then(() => {
@@ -708,25 +1192,23 @@ export class Base {
   }
 
   private prepareMessageHandler(params : PrepareMessageHandlerParams, force = false) : Promise<MessageHandler> {
-    const { text, senderId, senderName, avatarUrl, roomId } = params;
-    const tag = autoTagger(senderId, this);
-
+    const { text, senderId, senderName, avatarUrl, roomId, messageId } = params;
 
     return this.getOrCreateMatrixRoomFromThirdPartyRoomId(roomId, force, senderId).then((matrixRoomData) => {
       const { matrixRoomId, createdNeedName, createdNeedAvatar } = matrixRoomData;
       if (senderId === undefined) {
-        let handler : MessageHandler = { tag, matrixRoomId, client: this.puppet.client }
-        if ( this.isTaggedMatrixMessage(text) ) {
-          handler.ignore = true;
-        }
-        return handler;
+        let handler : MessageHandler = { matrixRoomId, client: this.getPuppetClient() };
+        return this.isRemoteEcho(roomId, messageId, text).then((echo) => {
+          handler.ignore = echo;
+          return handler;
+        });
       }
       return this.getIntentFromThirdPartySenderId(senderId, senderName, avatarUrl, matrixRoomData).then(ghostIntent=>{
         return this.getStatusRoomId().then((statusRoomId)=>{
           return ghostIntent.join(statusRoomId);
         }).then(()=>{
           return this.inviteAndJoinMatrixRoom(ghostIntent, matrixRoomId, force).then(()=>{
-            let handler : MessageHandler = { tag, matrixRoomId, client: ghostIntent.getClient() };
+            let handler : MessageHandler = { matrixRoomId, client: ghostIntent.getClient() };
             return handler;
           });
         });
@@ -738,8 +1220,8 @@ export class Base {
     return this.prepareMessageHandler(prep)
       .then(sendMessage)
       .catch(err=> {
-        warn("Couldn't prepare message handler, forcing new state...");
-        error(err);
+        this.log.warn("Couldn't prepare message handler, forcing new state...");
+        this.log.error(err);
         return this.prepareMessageHandler(prep, true).then(sendMessage);
       })
       .then(() => {
@@ -748,10 +1230,27 @@ export class Base {
   }
 
   /**
-   * Returns a promise
+   * Queues an image message of the third party network
+   *
+   * @returns {Promise} Resolves once it was sent to matrix
    */
   public handleThirdPartyRoomImageMessage(payload: ThirdPartyImageMessagePayload) : Promise<void> {
-    info('handling third party room image message', payload);
+    // the queue is written to disk, it only refers to the content which waits in the media cache
+    const { buffer, ...rest } = payload;
+    if (!buffer) {
+      return this.enqueue('to_matrix', a2b(payload.roomId), 'image', rest);
+    }
+    return mediaCache.stage(buffer).then((mediaHash) => {
+      return this.enqueue('to_matrix', a2b(payload.roomId), 'image', { ...rest, mediaHash });
+    });
+  }
+
+  private deliverThirdPartyRoomImageMessage(queued: any) : Promise<void> {
+    let payload : ThirdPartyImageMessagePayload = { ...queued };
+    const mediaHash : string = queued.mediaHash;
+    delete payload['mediaHash'];
+    const log = this.roomLog({ thirdPartyRoomId: a2b(payload.roomId) });
+    log.info('handling third party room image message', payload);
     if (payload.senderId) {
       if (!payload.senderName) {
         payload.senderName = payload.senderId;
@@ -760,7 +1259,7 @@ export class Base {
     }
     payload.roomId = a2b(payload.roomId);
     let {
-      text, senderId, senderName, avatarUrl, roomId,
+      text, senderId, senderName, avatarUrl, roomId, messageId,
       url, path, buffer, // either one is fine
       h,
       w,
@@ -768,54 +1267,73 @@ export class Base {
     } = payload;
 
     const prep : PrepareMessageHandlerParams = {
-      text, senderId, senderName, avatarUrl, roomId
+      text, senderId, senderName, avatarUrl, roomId, messageId
     };
     
     const sendMessage = (handler) => {
       if (handler.ignore) return;
-      const { tag, matrixRoomId, client } = handler;
-      const { upload } = createUploader(client, text, mimetype);
+      const { matrixRoomId, client } = handler;
+      const options = { name: text, type: mimetype };
 
       let promise;
       if ( url ) {
-        promise = ()=> {
-          return download.getBufferAndType(url).then(({buffer,type}) => {
-            return upload(buffer, { type: mimetype || type });
+        promise = () => mediaCache.uploadUrl(client, url, options);
+      } else if ( path ) {
+        promise = () => {
+          return fs.readFile(path).then((fileBuffer) => {
+            return mediaCache.uploadBuffer(client, fileBuffer, options);
           });
         };
-      } else if ( path ) {
-        promise = fs.readFile(path).then(() => {
-          return upload(buffer);
-        });
       } else if ( buffer ) {
-        promise = () => upload(buffer);
+        promise = () => mediaCache.uploadBuffer(client, buffer, options);
+      } else if ( mediaHash ) {
+        promise = () => mediaCache.uploadStaged(client, mediaHash, options);
       } else {
-        promise = Promise.reject(new Error('missing url or path'));
+        promise = () => Promise.reject(new Error('missing url or path'));
       }
 
-      promise().then(({ content_uri, size }) => {
-        info('uploaded to', content_uri);
-        let msg = tag(text);
-        let opts = { mimetype, h, w, size };
-        return client.sendImageMessage(matrixRoomId, content_uri, opts, msg);
+      return promise().then(({ contentUri, size, type }) => {
+        log.info(contentUri, 'uploaded', size, 'bytes');
+        let opts = { mimetype: mimetype || type, h, w, size };
+        return this.echoes.sendToMatrix(matrixRoomId, () => client.sendImageMessage(matrixRoomId, contentUri, opts, text));
       }, (err) =>{
-        warn('upload error', err);
+        log.warn('upload error', err);
 
         let opts = {
-          body: tag(url || path || text),
+          body: url || path || text,
           msgtype: "m.text"
         };
-        return client.sendMessage(matrixRoomId, opts);
+        return this.echoes.sendToMatrix(matrixRoomId, () => client.sendMessage(matrixRoomId, opts));
+      }).then((res: SendEventResponse) => {
+        messagesBridged.inc(this.metricLabels({ direction: 'to_matrix' }));
+        return this.storeMessage(roomId, res.event_id, messageId, client.credentials.userId);
       });
     };
 
-    return this.prepareAndSendMessageHandler(prep, sendMessage);
+    return this.prepareAndSendMessageHandler(prep, sendMessage).then(() => {
+      if (mediaHash) {
+        return mediaCache.discardStaged(mediaHash);
+      }
+    });
   }
   /**
-   * Returns a promise
+   * Queues a message of the third party network
+   *
+   * @returns {Promise} Resolves once it was sent to matrix
    */
   public handleThirdPartyRoomMessage(payload : ThirdPartyMessagePayload) : Promise<void> {
-    info('handling third party room message', payload);
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'message', payload);
+  }
+
+  /**
+   * @param {ThirdPartyMessagePayload} queued
+   * @param {number} enqueuedAt When the message was received, for the latency metric, null for history
+   * @param {number} ts When the message was originally sent, for history
+   */
+  private deliverThirdPartyRoomMessage(queued: ThirdPartyMessagePayload, enqueuedAt: number, ts?: number) : Promise<void> {
+    let payload : ThirdPartyMessagePayload = { ...queued };
+    const log = this.roomLog({ thirdPartyRoomId: a2b(payload.roomId) });
+    log.info('handling third party room message', payload);
     if (payload.senderId) {
       payload.senderId = a2b(payload.senderId);
       if (!payload.senderName) {
@@ -823,107 +1341,919 @@ export class Base {
       }
     }
     payload.roomId = a2b(payload.roomId);
-    debug(payload);
+    log.debug(payload);
     const {
-      text, senderId, senderName, avatarUrl, roomId,
+      text, senderId, senderName, avatarUrl, roomId, messageId,
       html
     } = payload;
     const prep : PrepareMessageHandlerParams = {
-      text, senderId, senderName, avatarUrl, roomId
+      text, senderId, senderName, avatarUrl, roomId, messageId
     }
     
     const sendMessage = (handler) => {
       if (handler.ignore) return;
-      const { tag, matrixRoomId, client } = handler;
+      const { matrixRoomId, client } = handler;
+      let content : any = {
+        body: text,
+        msgtype: "m.text"
+      };
       if (html) {
-        return client.sendMessage(matrixRoomId, {
-          body: tag(text),
-          formatted_body: html,
-          format: "org.matrix.custom.html",
-          msgtype: "m.text"
-        });
-      } else {
-        return client.sendMessage(matrixRoomId, {
-          body: tag(text),
-          msgtype: "m.text"
-        });
+        content.formatted_body = html;
+        content.format = "org.matrix.custom.html";
       }
+      return this.isBridgedMessage(roomId, messageId).then((bridged) => {
+        if (bridged) {
+          // e.g. imported with the history of the room
+          log.info('ignoring message which is bridged already');
+          return;
+        }
+        const txnId = client.makeTxnId();
+        const send = ts ?
+          () => this.sendMessageWithTimestamp(client, matrixRoomId, content, ts, txnId) :
+          () => client.sendMessage(matrixRoomId, content, txnId);
+        return this.echoes.sendToMatrix(matrixRoomId, send, txnId).then((res) => {
+          if (enqueuedAt) {
+            messageLatency.observe(this.metricLabels(), (Date.now() - enqueuedAt) / 1000);
+          }
+          messagesBridged.inc(this.metricLabels({ direction: 'to_matrix' }));
+          return this.storeMessage(roomId, res.event_id, messageId, client.credentials.userId);
+        });
+      });
     };
     return this.prepareAndSendMessageHandler(prep, sendMessage);
   }
 
-  public handleMatrixEvent(req, _context) {
-    const data = req.getData();
-    if (data.type === 'm.room.message') {
-      info('incoming message. data:', data);
-      return this.handleMatrixMessageEvent(data);
-    } else {
-      return warn('ignored a matrix event', data.type);
-    }
+  /**
+   * Redacts the matrix event of a message deleted on the third party network,
+   * as the ghost or puppet that sent it
+   *
+   * @returns {Promise}
+   */
+  public handleThirdPartyRoomRedaction(payload: ThirdPartyRedactionPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'redaction', payload);
   }
 
-  private handleMatrixMessageEvent(data) {
-    const { room_id, sender, content: { body, msgtype } } = data;
-
-    let promise, msg;
-
-    if (this.puppet.userId != sender || this.isTaggedMatrixMessage(body)) {
-      info("ignoring tagged message, it was sent by the bridge");
-      return;
+  private deliverThirdPartyRoomRedaction(payload: ThirdPartyRedactionPayload) : Promise<void> {
+    this.log.info('handling third party room redaction', payload);
+    const roomId = a2b(payload.roomId);
+    const matrixRoomId = this.rooms.getMatrixRoomId(roomId);
+    if (!matrixRoomId) {
+      this.log.info('ignoring redaction in a room that is not bridged');
+      return Promise.resolve();
     }
+    return this.echoes.isRemoteEcho(roomId, this.deletionEchoId(payload.messageId)).then((echo) => {
+      if (echo) {
+        this.log.info('ignoring redaction, the message was deleted by the bridge');
+        return;
+      }
+      return messageStore.getByRemoteId(this.network, this.identityPair.id, roomId, payload.messageId).then((message) => {
+        if (!message) {
+          this.log.info('ignoring redaction of a message that is not bridged');
+          return;
+        }
+        const client = this.getClientFromMatrixUserId(message.sender);
+        // the redaction echoing back from matrix is told apart by its event ID, and the message
+        // is only forgotten once redacted, so a retry still finds it
+        return this.echoes.sendToMatrix(matrixRoomId, () => client.redactEvent(matrixRoomId, message.matrixEventId)).then(() => {
+          return messageStore.removeByMatrixEventId(this.network, this.identityPair.id, roomId, message.matrixEventId);
+        });
+      });
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
 
-    const thirdPartyRoomId = this.getThirdPartyRoomIdFromMatrixRoomId(room_id);
-    const isStatusRoom = thirdPartyRoomId === "status_room";
-    debug(thirdPartyRoomId);
-    if (!thirdPartyRoomId) {
-      promise = () => Promise.resolve(); // not our network prefix
-    } else if (isStatusRoom) {
-      info("ignoring incoming message to status room");
+  /**
+   * Sends a replacement (m.replace) for the matrix event of a message edited on
+   * the third party network, as the ghost or puppet that sent it
+   *
+   * @returns {Promise}
+   */
+  public handleThirdPartyRoomEdit(payload: ThirdPartyEditPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'edit', payload);
+  }
 
-      msg = this.tagMatrixMessage("Commands are currently ignored here");
+  private deliverThirdPartyRoomEdit(payload: ThirdPartyEditPayload) : Promise<void> {
+    this.log.info('handling third party room edit', payload);
+    const roomId = a2b(payload.roomId);
+    const matrixRoomId = this.rooms.getMatrixRoomId(roomId);
+    if (!matrixRoomId) {
+      this.log.info('ignoring edit in a room that is not bridged');
+      return Promise.resolve();
+    }
+    const { text, html } = payload;
+    return this.isRemoteEcho(roomId, this.editEchoId(payload.messageId, text), text).then((echo) => {
+      if (echo) {
+        this.log.info('ignoring edit, it was done by the bridge');
+        return;
+      }
+      return messageStore.getByRemoteId(this.network, this.identityPair.id, roomId, payload.messageId).then((message) => {
+        if (!message) {
+          this.log.info('ignoring edit of a message that is not bridged');
+          return;
+        }
+        let newContent : any = {
+          body: text,
+          msgtype: "m.text"
+        };
+        if (html) {
+          newContent.format = "org.matrix.custom.html";
+          newContent.formatted_body = html;
+        }
+        const client = this.getClientFromMatrixUserId(message.sender);
+        return this.echoes.sendToMatrix(matrixRoomId, () => client.sendMessage(matrixRoomId, {
+          body: '* '+text,
+          msgtype: "m.text",
+          'm.new_content': newContent,
+          'm.relates_to': {
+            rel_type: 'm.replace',
+            event_id: message.matrixEventId
+          }
+        }));
+      });
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  /**
+   * Sends an m.reaction annotation for a reaction on the third party network,
+   * as the ghost of the third party user, or the puppet
+   *
+   * @returns {Promise}
+   */
+  public handleThirdPartyRoomReaction(payload: ThirdPartyReactionPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'reaction', payload);
+  }
+
+  private deliverThirdPartyRoomReaction(payload: ThirdPartyReactionPayload) : Promise<void> {
+    this.log.info('handling third party room reaction', payload);
+    const roomId = a2b(payload.roomId);
+    const matrixRoomId = this.rooms.getMatrixRoomId(roomId);
+    if (!matrixRoomId) {
+      this.log.info('ignoring reaction in a room that is not bridged');
+      return Promise.resolve();
+    }
+    const { messageId, reaction } = payload;
+    return Promise.all([
+      messageStore.getByRemoteId(this.network, this.identityPair.id, roomId, messageId),
+      this.getClientFromThirdPartySenderId(payload.senderId, matrixRoomId)
+    ]).then(([message, client]) => {
+      if (!message) {
+        this.log.info('ignoring reaction to a message that is not bridged');
+        return;
+      }
+      const sender = client.credentials.userId;
+      return messageStore.getReaction(this.network, this.identityPair.id, roomId, messageId, sender, reaction).then((existing) => {
+        if (existing) {
+          return; // already bridged
+        }
+        return this.echoes.sendToMatrix(matrixRoomId, () => client.sendEvent(matrixRoomId, 'm.reaction', {
+          'm.relates_to': {
+            rel_type: 'm.annotation',
+            event_id: message.matrixEventId,
+            key: reaction
+          }
+        })).then(({ event_id }) => {
+          return messageStore.add(this.network, this.identityPair.id, roomId, {
+            matrixEventId: event_id,
+            remoteId: null,
+            sender,
+            reactionTo: messageId,
+            reactionKey: reaction
+          });
+        });
+      });
+    });
+  }
 
-      // We may wish to process bang commands here at some point,
-      // but for now let's just send a message back
-      promise = () => this.sendStatusMsg({ fixedWidthOutput: false }, msg);
+  /**
+   * Redacts the m.reaction annotation of a reaction taken back on the third party network
+   *
+   * @returns {Promise}
+   */
+  public handleThirdPartyRoomReactionRemoval(payload: ThirdPartyReactionPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'reaction_removal', payload);
+  }
 
+  private deliverThirdPartyRoomReactionRemoval(payload: ThirdPartyReactionPayload) : Promise<void> {
+    this.log.info('handling third party room reaction removal', payload);
+    const roomId = a2b(payload.roomId);
+    const matrixRoomId = this.rooms.getMatrixRoomId(roomId);
+    if (!matrixRoomId) {
+      this.log.info('ignoring reaction removal in a room that is not bridged');
+      return Promise.resolve();
+    }
+    const sender = payload.senderId ? this.getGhostUserFromThirdPartySenderId(a2b(payload.senderId)) : this.puppet.userId;
+    return this.echoes.isRemoteEcho(roomId, this.reactionRemovalEchoId(payload.messageId, payload.reaction)).then((echo) => {
+      if (echo) {
+        this.log.info('ignoring reaction removal, it was done by the bridge');
+        return;
+      }
+      return messageStore.getReaction(this.network, this.identityPair.id, roomId, payload.messageId, sender, payload.reaction).then((stored) => {
+        if (!stored) {
+          this.log.info('ignoring removal of a reaction that is not bridged');
+          return;
+        }
+        const client = this.getClientFromMatrixUserId(sender);
+        // like deleted messages, the reaction is only forgotten once redacted
+        return this.echoes.sendToMatrix(matrixRoomId, () => client.redactEvent(matrixRoomId, stored.matrixEventId)).then(() => {
+          return messageStore.removeByMatrixEventId(this.network, this.identityPair.id, roomId, stored.matrixEventId);
+        });
+      });
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  /**
+   * Shows a third party user typing in a matrix room, through their ghost
+   *
+   * @param {string} roomId The third party room ID
+   * @param {string} senderId The third party user ID
+   * @param {boolean} typing
+   * @returns {Promise}
+   */
+  public handleThirdPartyTyping(roomId: string, senderId: string, typing: boolean) : Promise<void> {
+    const matrixRoomId = this.rooms.getMatrixRoomId(a2b(roomId));
+    if (!matrixRoomId || !senderId) {
+      return Promise.resolve();
+    }
+    return this.getClientFromThirdPartySenderId(senderId, matrixRoomId).then((client) => {
+      return client.sendTyping(matrixRoomId, typing, TYPING_TIMEOUT_MS);
+    });
+  }
+
+  /**
+   * Sets the presence of the ghost of a third party user
+   *
+   * @param {string} senderId The third party user ID
+   * @param {string} presence One of 'online', 'offline' or 'unavailable'
+   * @returns {Promise}
+   */
+  public handleThirdPartyPresence(senderId: string, presence: string) : Promise<void> {
+    const ghostIntent : Intent = this.getIntent(this.getGhostUserFromThirdPartySenderId(a2b(senderId)));
+    return ghostIntent.setPresence(presence);
+  }
+
+  /**
+   * Sends an m.read receipt for a message read by a third party user, through their ghost
+   *
+   * @returns {Promise}
+   */
+  public handleThirdPartyReadReceipt(payload: ThirdPartyReceiptPayload) : Promise<void> {
+    const roomId = a2b(payload.roomId);
+    const matrixRoomId = this.rooms.getMatrixRoomId(roomId);
+    if (!matrixRoomId || !payload.senderId) {
+      return Promise.resolve();
+    }
+    return messageStore.getByRemoteId(this.network, this.identityPair.id, roomId, payload.messageId).then((message) => {
+      if (!message) {
+        this.log.info('ignoring read receipt for a message that is not bridged');
+        return;
+      }
+      return this.getClientFromThirdPartySenderId(payload.senderId, matrixRoomId).then((client) => {
+        return client.sendReceipt({
+          getRoomId: () => matrixRoomId,
+          getId: () => message.matrixEventId
+        }, 'm.read');
+      });
+    });
+  }
+
+  /**
+   * Joins the ghost of a third party user who joined a room
+   *
+   * @returns {Promise} Resolves once it was bridged to matrix
+   */
+  public handleThirdPartyMemberJoin(payload: ThirdPartyMemberPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'member_join', payload);
+  }
+
+  private deliverThirdPartyMemberJoin(payload: ThirdPartyMemberPayload) : Promise<void> {
+    const matrixRoomId = this.rooms.getMatrixRoomId(a2b(payload.roomId));
+    if (!matrixRoomId) {
+      this.log.info('ignoring join of a room that is not bridged');
+      return Promise.resolve();
+    }
+    return this.getIntentFromThirdPartySenderId(a2b(payload.senderId), payload.senderName, payload.avatarUrl).then((ghostIntent) => {
+      return this.inviteAndJoinMatrixRoom(ghostIntent, matrixRoomId);
+    });
+  }
+
+  /**
+   * Makes the ghost of a third party user who left a room leave it
+   *
+   * @returns {Promise} Resolves once it was bridged to matrix
+   */
+  public handleThirdPartyMemberLeave(payload: ThirdPartyMemberPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'member_leave', payload);
+  }
+
+  private deliverThirdPartyMemberLeave(payload: ThirdPartyMemberPayload) : Promise<void> {
+    const matrixRoomId = this.rooms.getMatrixRoomId(a2b(payload.roomId));
+    if (!matrixRoomId) {
+      this.log.info('ignoring leave of a room that is not bridged');
+      return Promise.resolve();
+    }
+    return this.leaveMatrixRoom(this.getGhostUserFromThirdPartySenderId(a2b(payload.senderId)), matrixRoomId);
+  }
+
+  /**
+   * Kicks the ghost of a third party user who was removed from a room, as the ghost
+   * of whoever removed them or as the puppet
+   *
+   * @returns {Promise} Resolves once it was bridged to matrix
+   */
+  public handleThirdPartyMemberRemoval(payload: ThirdPartyMemberRemovalPayload) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(payload.roomId), 'member_removal', payload);
+  }
+
+  private deliverThirdPartyMemberRemoval(payload: ThirdPartyMemberRemovalPayload) : Promise<void> {
+    const matrixRoomId = this.rooms.getMatrixRoomId(a2b(payload.roomId));
+    if (!matrixRoomId) {
+      this.log.info('ignoring removal from a room that is not bridged');
+      return Promise.resolve();
+    }
+    const ghostId = this.getGhostUserFromThirdPartySenderId(a2b(payload.senderId));
+    return this.getClientFromThirdPartySenderId(payload.removedBy, matrixRoomId).then((client) => {
+      return client.kick(matrixRoomId, ghostId, payload.reason);
+    }).then(() => {
+      this.forgetGhostInRoom(ghostId, matrixRoomId);
+    }, (err) => {
+      this.log.warn('failed to kick', ghostId, 'making it leave instead', err);
+      return this.leaveMatrixRoom(ghostId, matrixRoomId);
+    });
+  }
+
+  /**
+   * Makes a ghost leave a matrix room
+   *
+   * @param {string} ghostId The matrix user ID of the ghost
+   * @param {string} matrixRoomId
+   * @returns {Promise}
+   */
+  private leaveMatrixRoom(ghostId: string, matrixRoomId: string) : Promise<void> {
+    return this.getIntent(ghostId).leave(matrixRoomId).then(() => {
+      this.forgetGhostInRoom(ghostId, matrixRoomId);
+    });
+  }
+
+  private forgetGhostInRoom(ghostId: string, matrixRoomId: string) {
+    if (matrixRoomId in this.roomGhostMap) {
+      this.roomGhostMap[matrixRoomId] = this.roomGhostMap[matrixRoomId].filter(id => id !== ghostId);
+    }
+  }
+
+  /**
+   * Queues the reconciliation of the members of every bridged room, so it happens in order
+   * with the other events of each room
+   */
+  private reconcileAllRoomMembers() {
+    if (!this.adapter.getRoomMembers) {
+      return;
+    }
+    this.rooms.entries().forEach(({ thirdPartyRoomId }) => {
+      this.enqueue('to_matrix', thirdPartyRoomId, 'member_sync', {}).catch((err) => {
+        this.roomLog({ thirdPartyRoomId }).warn('failed to reconcile members', err);
+      });
+    });
+  }
+
+  /**
+   * Joins and removes the ghosts of a room to match its members on the third
+   * party network, if the adapter can list them
+   *
+   * @param {string} thirdPartyRoomId The encoded third party room ID
+   * @param {string} matrixRoomId
+   * @returns {Promise} Resolves once done, failures of single ghosts are only logged
+   */
+  private reconcileRoomMembers(thirdPartyRoomId: string, matrixRoomId: string) : Promise<void> {
+    if (!this.adapter.getRoomMembers || !matrixRoomId) {
+      return Promise.resolve();
+    }
+    const log = this.roomLog({ matrixRoomId, thirdPartyRoomId });
+    const ghostPrefix = '@'+this.getRoomAliasLocalPartFromThirdPartyRoomId('');
+    return Promise.all([
+      Promise.resolve(this.adapter.getRoomMembers(b2a(thirdPartyRoomId))),
+      this.getPuppetClient().getJoinedRoomMembers(matrixRoomId)
+    ]).then(([members, { joined }]) => {
+      let wanted : { [ghostId: string]: ThirdPartyRoomMember } = {};
+      (members || []).forEach((member) => {
+        wanted[this.getGhostUserFromThirdPartySenderId(a2b(member.userId))] = member;
+      });
+      const missing = Object.keys(wanted).filter(ghostId => !joined[ghostId]);
+      const gone = Object.keys(joined).filter(userId => userId.indexOf(ghostPrefix) === 0 && !wanted[userId]);
+      log.info('reconciling members,', missing.length, 'to join and', gone.length, 'to leave');
+      const joins = missing.reduce((prev, ghostId) => prev.then(() => {
+        const { userId, name, avatarUrl } = wanted[ghostId];
+        return this.getIntentFromThirdPartySenderId(a2b(userId), name, avatarUrl).then((ghostIntent) => {
+          return this.inviteAndJoinMatrixRoom(ghostIntent, matrixRoomId);
+        }).catch((err) => {
+          log.warn('failed to join', ghostId, err);
+        });
+      }), Promise.resolve());
+      return gone.reduce((prev, ghostId) => prev.then(() => {
+        return this.leaveMatrixRoom(ghostId, matrixRoomId).catch((err) => {
+          log.warn('failed to leave', ghostId, err);
+        });
+      }), joins);
+    });
+  }
+
+  /**
+   * Updates the name, topic and avatar of the matrix room of a third party room, through the bot
+   *
+   * @param {string} roomId The third party room ID
+   * @param {ThirdPartyRoomUpdate} data
+   * @returns {Promise} Resolves once it was bridged to matrix
+   */
+  public handleThirdPartyRoomUpdate(roomId: string, data: ThirdPartyRoomUpdate) : Promise<void> {
+    return this.enqueue('to_matrix', a2b(roomId), 'room_update', { roomId, data });
+  }
+
+  private deliverThirdPartyRoomUpdate(payload: { roomId: string, data: ThirdPartyRoomUpdate }) : Promise<void> {
+    const thirdPartyRoomId = a2b(payload.roomId);
+    const matrixRoomId = this.rooms.getMatrixRoomId(thirdPartyRoomId);
+    if (!matrixRoomId) {
+      this.log.info('ignoring update of a room that is not bridged');
+      return Promise.resolve();
+    }
+    const { name, topic, avatarUrl } = payload.data || <ThirdPartyRoomUpdate>{};
+    const botIntent = this.getIntentFromApplicationServerBot();
+    const known = this.roomStates[thirdPartyRoomId] = this.roomStates[thirdPartyRoomId] || {};
+    let promiseList = [];
+    // rooms without a name, e.g. direct chats, keep following the name of their ghost
+    if (name && name !== known.name) {
+      promiseList.push(this.updateRoomState(matrixRoomId, 'm.room.name', 'name', name, () => {
+        return botIntent.setRoomName(matrixRoomId, name);
+      }).then(() => {
+        known.name = name;
+      }));
+    }
+    if (typeof topic === 'string' && topic !== known.topic) {
+      promiseList.push(this.updateRoomState(matrixRoomId, 'm.room.topic', 'topic', topic, () => {
+        return botIntent.setRoomTopic(matrixRoomId, topic);
+      }).then(() => {
+        known.topic = topic;
+      }));
+    }
+    if (avatarUrl && avatarUrl !== known.avatarUrl) {
+      promiseList.push(this.uploadAvatar(botIntent.getClient(), avatarUrl).then((contentUri) => {
+        return this.updateRoomState(matrixRoomId, 'm.room.avatar', 'url', contentUri, () => {
+          return botIntent.setRoomAvatar(matrixRoomId, contentUri);
+        });
+      }).then(() => {
+        known.avatarUrl = avatarUrl;
+      }));
+    }
+    return Promise.all(promiseList).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  /**
+   * Sets a state event of a matrix room, unless it has the value already
+   *
+   * @param {string} matrixRoomId
+   * @param {string} eventType
+   * @param {string} key The key of the value in the content of the event
+   * @param {string} value
+   * @param {function} set Sets the value
+   * @returns {Promise}
+   */
+  private updateRoomState(matrixRoomId: string, eventType: string, key: string, value: string, set: () => Promise<void>) : Promise<void> {
+    return this.getPuppetClient().getStateEvent(matrixRoomId, eventType, '').then((content) => {
+      return content ? content[key] : undefined;
+    }, () => {
+      return undefined; // not set yet
+    }).then((current) => {
+      if (current === value) {
+        return;
+      }
+      this.roomLog({ matrixRoomId }).info('updating', eventType);
+      return set();
+    });
+  }
+
+  /**
+   * Fetches the data of every bridged room again every so often, and right away,
+   * to catch changes the adapter didn't report
+   */
+  private startRoomSync() {
+    const minutes = this.roomSync.intervalMinutes === undefined ? DEFAULT_ROOM_SYNC_MINUTES : this.roomSync.intervalMinutes;
+    if (minutes === 0 || this.roomSyncTimer) {
+      return;
+    }
+    this.syncAllRooms();
+    this.roomSyncTimer = setInterval(() => {
+      if (this.supervisor.getState() === 'connected') {
+        this.syncAllRooms();
+      }
+    }, minutes * 60 * 1000);
+  }
+
+  private syncAllRooms() {
+    this.rooms.entries().forEach(({ thirdPartyRoomId }) => {
+      this.enqueue('to_matrix', thirdPartyRoomId, 'room_sync', {}).catch((err) => {
+        this.roomLog({ thirdPartyRoomId }).warn('failed to sync room', err);
+      });
+    });
+  }
+
+  private syncRoom(thirdPartyRoomId: string) : Promise<void> {
+    if (!this.rooms.getMatrixRoomId(thirdPartyRoomId)) {
+      return Promise.resolve();
+    }
+    return Promise.resolve(this.adapter.getRoomData(b2a(thirdPartyRoomId))).then((thirdPartyRoomData) => {
+      const { name, topic, avatarUrl } = thirdPartyRoomData || <ThirdPartyRoomUpdate>{};
+      return this.deliverThirdPartyRoomUpdate({ roomId: b2a(thirdPartyRoomId), data: { name, topic, avatarUrl } });
+    });
+  }
+
+  public handleMatrixEvent(req, _context) {
+    const data = req.getData();
+    const log = this.roomLog({ matrixRoomId: data.room_id });
+    if (data.type === 'm.room.message') {
+      log.info('incoming message. data:', data);
+      return this.handleMatrixMessageEvent(data);
+    } else if (data.type === 'm.room.redaction') {
+      log.info('incoming redaction. data:', data);
+      return this.handleMatrixRedactionEvent(data);
+    } else if (data.type === 'm.reaction') {
+      log.info('incoming reaction. data:', data);
+      return this.handleMatrixReactionEvent(data);
     } else {
-      msg = this.tagMatrixMessage(body);
+      return log.warn('ignored a matrix event', data.type);
+    }
+  }
+
+  private handleMatrixMessageEvent(data) {
+    const { room_id, sender, content: { body, msgtype } } = data;
+    const log = this.roomLog({ matrixRoomId: room_id });
 
-      if (msgtype === 'm.text') {
-        if (this.adapter.handleMatrixUserBangCommand) {
+    if (this.puppet.userId != sender) {
+      log.info("ignoring message, it wasn't sent by the puppet");
+      return;
+    }
+
+    const thirdPartyRoomId = this.getThirdPartyRoomIdFromMatrixRoomId(room_id);
+    log.debug(thirdPartyRoomId);
+    if (!thirdPartyRoomId) {
+      return; // not our network prefix
+    } else if (thirdPartyRoomId === "status_room") {
+      log.info("ignoring incoming message to status room, the puppet handles those commands");
+      return;
+    }
+
+    return this.echoes.isMatrixEcho(data).then((echo) => {
+      if (echo) {
+        log.info("ignoring message, it was sent by the bridge");
+        return;
+      }
+      if (!this.isMatrixEdit(data)) {
+        if (msgtype === 'm.text' && this.adapter.handleMatrixUserBangCommand) {
           const bc = parseBangCommand(body);
           if (bc) return this.adapter.handleMatrixUserBangCommand(bc, data);
         }
-        promise = () => this.adapter.sendMessage(b2a(thirdPartyRoomId), msg);
-      } else if (msgtype === 'm.image') {
-        info("picture message from riot");
+        if (['m.text', 'm.image', 'm.emote'].indexOf(msgtype) === -1) {
+          return this.sendStatusMsg({}, new Error('dont know how to handle this msgtype '+msgtype), data);
+        }
+      }
 
-        let url = this.puppet.getClient().mxcUrlToHttp(data.content.url);
-        promise = () => {
-          const image : Image = {
-            url, text: this.tagMatrixMessage(body),
-            mimetype: data.content.info.mimetype,
-            width: data.content.info.w,
-            height: data.content.info.h,
-            size: data.content.info.size,
-          }
-          return this.adapter.sendImageMessage(b2a(thirdPartyRoomId), image);
-        };
-      } else if (msgtype === 'm.emote') {
-        promise = () => this.adapter.sendEmoteMessage(b2a(thirdPartyRoomId), msg);
-      } else {
-        let err = 'dont know how to handle this msgtype '+msgtype;
-        promise = () => Promise.reject(new Error(err));
+      // failures are reported by reportQueueFailure
+      return this.enqueue('to_remote', thirdPartyRoomId, 'matrix_message', data).catch(() => {});
+    });
+  }
+
+  private deliverMatrixMessageEvent(data, thirdPartyRoomId: string) : Promise<void> {
+    const { sender, content: { body, msgtype } } = data;
+
+    let promise, msg;
+
+    if (this.isMatrixEdit(data)) {
+      return this.deliverMatrixEditEvent(data, thirdPartyRoomId);
+    }
+    msg = this.tagMatrixMessage(body);
+
+    if (msgtype === 'm.text') {
+      promise = () => this.adapter.sendMessage(b2a(thirdPartyRoomId), msg);
+    } else if (msgtype === 'm.image') {
+      this.log.info("picture message from riot");
+
+      let url = this.getPuppetClient().mxcUrlToHttp(data.content.url);
+      promise = () => {
+        const image : Image = {
+          url, text: this.tagMatrixMessage(body),
+          mimetype: data.content.info.mimetype,
+          width: data.content.info.w,
+          height: data.content.info.h,
+          size: data.content.info.size,
+        }
+        return this.adapter.sendImageMessage(b2a(thirdPartyRoomId), image);
+      };
+    } else {
+      promise = () => this.adapter.sendEmoteMessage(b2a(thirdPartyRoomId), msg);
+    }
+
+    return this.echoes.sendToRemote(thirdPartyRoomId, promise).then((remoteId) => {
+      messagesBridged.inc(this.metricLabels({ direction: 'to_remote' }));
+      if (typeof remoteId === 'string') {
+        return this.storeMessage(thirdPartyRoomId, data.event_id, remoteId, sender);
+      }
+    });
+  }
+
+  private isMatrixEdit(data) : boolean {
+    const relatesTo = data.content['m.relates_to'];
+    return !!relatesTo && relatesTo.rel_type === 'm.replace' && !!data.content['m.new_content'];
+  }
+
+  /**
+   * Passes an edit of the puppet on to the adapter. If the adapter can't edit messages, or
+   * doesn't know the original one, the edit is sent as a new message like before.
+   */
+  private deliverMatrixEditEvent(data, thirdPartyRoomId: string) : Promise<void> {
+    const newContent = data.content['m.new_content'];
+    const originalEventId = data.content['m.relates_to'].event_id;
+
+    return messageStore.getByMatrixEventId(this.network, this.identityPair.id, thirdPartyRoomId, originalEventId).then((message) => {
+      if (!message || !this.adapter.editMessage) {
+        this.log.info('cannot edit the original message, sending the edit as a new message');
+        return this.echoes.sendToRemote<any>(thirdPartyRoomId, () => this.adapter.sendMessage(b2a(thirdPartyRoomId), this.tagMatrixMessage(newContent.body)));
+      }
+      const text = this.tagMatrixMessage(newContent.body);
+      return this.echoes.sendToRemote<any>(thirdPartyRoomId, () => {
+        return this.adapter.editMessage(b2a(thirdPartyRoomId), message.remoteId, text);
+      }, this.editEchoId(message.remoteId, text));
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  private handleMatrixRedactionEvent(data) {
+    const { room_id, sender } = data;
+
+    if (this.puppet.userId != sender) {
+      this.log.info("ignoring redaction, it wasn't done by the puppet");
+      return;
+    }
+    const thirdPartyRoomId = this.getThirdPartyRoomIdFromMatrixRoomId(room_id);
+    if (!thirdPartyRoomId || thirdPartyRoomId === 'status_room') {
+      return; // not our network prefix
+    }
+    return this.echoes.isMatrixEcho(data).then((echo) => {
+      if (echo) {
+        this.log.info('ignoring redaction, it was done by the bridge');
+        return;
+      }
+      return this.enqueue('to_remote', thirdPartyRoomId, 'matrix_redaction', data).catch(() => {});
+    });
+  }
+
+  private deliverMatrixRedactionEvent(data, thirdPartyRoomId: string) : Promise<void> {
+    const redacts = data.redacts || (data.content && data.content.redacts);
+
+    return messageStore.getByMatrixEventId(this.network, this.identityPair.id, thirdPartyRoomId, redacts).then((message) => {
+      if (!message) {
+        this.log.info('ignoring redaction of an event that is not bridged (or was redacted by the bridge)');
+        return;
       }
+      if (message.reactionTo) {
+        if (!this.adapter.removeReaction) {
+          this.log.warn('adapter cannot remove reactions, ignoring redaction');
+          return;
+        }
+        return this.echoes.sendToRemote<any>(thirdPartyRoomId, () => {
+          return this.adapter.removeReaction(b2a(thirdPartyRoomId), message.reactionTo, message.reactionKey);
+        }, this.reactionRemovalEchoId(message.reactionTo, message.reactionKey)).then(() => {
+          return messageStore.removeByMatrixEventId(this.network, this.identityPair.id, thirdPartyRoomId, redacts);
+        });
+      }
+      if (!this.adapter.deleteMessage) {
+        this.log.warn('adapter cannot delete messages, ignoring redaction');
+        return;
+      }
+      return this.echoes.sendToRemote<any>(thirdPartyRoomId, () => {
+        return this.adapter.deleteMessage(b2a(thirdPartyRoomId), message.remoteId);
+      }, this.deletionEchoId(message.remoteId)).then(() => {
+        // only once deleted, so a retry still finds the message
+        return messageStore.removeByMatrixEventId(this.network, this.identityPair.id, thirdPartyRoomId, redacts);
+      });
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  private handleMatrixReactionEvent(data) {
+    const { room_id, sender } = data;
+    const relatesTo = data.content['m.relates_to'];
+
+    if (this.puppet.userId != sender) {
+      this.log.info("ignoring reaction, it wasn't done by the puppet");
+      return;
+    }
+    if (!relatesTo || relatesTo.rel_type !== 'm.annotation') {
+      return;
+    }
+    const thirdPartyRoomId = this.getThirdPartyRoomIdFromMatrixRoomId(room_id);
+    if (!thirdPartyRoomId || thirdPartyRoomId === 'status_room') {
+      return; // not our network prefix
+    }
+    return this.echoes.isMatrixEcho(data).then((echo) => {
+      if (echo) {
+        this.log.info('ignoring reaction, it was sent by the bridge');
+        return;
+      }
+      return this.enqueue('to_remote', thirdPartyRoomId, 'matrix_reaction', data).catch(() => {});
+    });
+  }
+
+  private deliverMatrixReactionEvent(data, thirdPartyRoomId: string) : Promise<void> {
+    const { sender, event_id } = data;
+    const relatesTo = data.content['m.relates_to'];
+    const key = relatesTo.key;
+
+    return messageStore.getByMatrixEventId(this.network, this.identityPair.id, thirdPartyRoomId, relatesTo.event_id).then((message) => {
+      if (!message || !message.remoteId) {
+        this.log.info('ignoring reaction to an event that is not bridged');
+        return;
+      }
+      if (!this.adapter.addReaction) {
+        this.log.warn('adapter cannot add reactions, ignoring reaction');
+        return;
+      }
+      return messageStore.getReaction(this.network, this.identityPair.id, thirdPartyRoomId, message.remoteId, sender, key).then((existing) => {
+        if (existing) {
+          this.log.info('ignoring reaction, it was sent by the bridge');
+          return;
+        }
+        return Promise.resolve(this.adapter.addReaction(b2a(thirdPartyRoomId), message.remoteId, key)).then(() => {
+          return messageStore.add(this.network, this.identityPair.id, thirdPartyRoomId, {
+            matrixEventId: event_id,
+            remoteId: null,
+            sender,
+            reactionTo: message.remoteId,
+            reactionKey: key
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Returns the client the third party user acts through in a matrix room: their ghost,
+   * joined to the room, or the puppet if no sender is given (it was us)
+   *
+   * @param {string} senderId The (not encoded) third party user ID
+   * @param {string} matrixRoomId
+   * @returns {Promise} A promise resolving to a MatrixClient
+   */
+  private getClientFromThirdPartySenderId(senderId: string, matrixRoomId: string) : Promise<MatrixClient> {
+    if (!senderId) {
+      return Promise.resolve(this.getPuppetClient());
+    }
+    return this.getIntentFromThirdPartySenderId(a2b(senderId)).then((ghostIntent) => {
+      return this.inviteAndJoinMatrixRoom(ghostIntent, matrixRoomId).then(() => {
+        return ghostIntent.getClient();
+      });
+    });
+  }
+
+  /**
+   * Returns the client of a matrix user we control, the puppet or a ghost
+   *
+   * @param {string} userId The matrix user ID
+   * @returns {MatrixClient}
+   */
+  private getClientFromMatrixUserId(userId: string) : MatrixClient {
+    if (userId === this.puppet.userId) {
+      return this.getPuppetClient();
     }
+    return this.getIntent(userId).getClient();
+  }
 
-    return promise().catch(err=>{
-      this.sendStatusMsg({}, err, data);
+  /**
+   * Remembers which matrix event corresponds to which third party message
+   *
+   * @param {string} thirdPartyRoomId The encoded third party room ID
+   * @param {string} matrixEventId
+   * @param {string} remoteId The third party message ID, nothing is stored without it
+   * @param {string} sender The matrix user who sent the event
+   * @returns {Promise}
+   */
+  private storeMessage(thirdPartyRoomId: string, matrixEventId: string, remoteId: string, sender: string) : Promise<void> {
+    if (!matrixEventId || !remoteId) {
+      return Promise.resolve();
+    }
+    return messageStore.add(this.network, this.identityPair.id, thirdPartyRoomId, {
+      matrixEventId, remoteId, sender
+    }).catch((err) => {
+      this.log.warn('failed to store message mapping', err);
     });
   }
   
+  /**
+   * Whether a third party message was bridged to matrix already
+   *
+   * @param {string} thirdPartyRoomId The encoded third party room ID
+   * @param {string} remoteId The third party message ID, unknown without it
+   * @returns {Promise}
+   */
+  private isBridgedMessage(thirdPartyRoomId: string, remoteId: string) : Promise<boolean> {
+    if (!remoteId) {
+      return Promise.resolve(false);
+    }
+    return messageStore.getByRemoteId(this.network, this.identityPair.id, thirdPartyRoomId, remoteId).then((message) => {
+      return !!message;
+    });
+  }
+
+  /**
+   * Imports the latest messages of a new room through the ghosts, oldest first,
+   * if the adapter can fetch them
+   *
+   * @param {string} thirdPartyRoomId The encoded third party room ID
+   * @param {string} matrixRoomId
+   * @returns {Promise} Resolves once done, failures are only logged
+   */
+  private backfillRoom(thirdPartyRoomId: string, matrixRoomId: string) : Promise<void> {
+    const limit = this.backfill.limit === undefined ? DEFAULT_BACKFILL_LIMIT : this.backfill.limit;
+    if (!this.adapter.getHistory || limit === 0) {
+      return Promise.resolve();
+    }
+    const log = this.roomLog({ matrixRoomId, thirdPartyRoomId });
+    const since = this.backfill.maxAgeDays ? Date.now() - this.backfill.maxAgeDays * DAY_MS : 0;
+    return Promise.resolve(this.adapter.getHistory(b2a(thirdPartyRoomId), since, limit)).then((history) => {
+      const messages = (history || []).filter(m => m.ts >= since).sort((a, b) => a.ts - b.ts).slice(-limit);
+      log.info('backfilling', messages.length, 'messages');
+      return messages.reduce((prev, message : ThirdPartyHistoryMessage) => prev.then(() => {
+        const { ts, ...payload } = message;
+        return this.deliverThirdPartyRoomMessage({ ...payload, roomId: b2a(thirdPartyRoomId) }, null, ts).catch((err) => {
+          log.warn('failed to backfill message', message.messageId, err);
+        });
+      }), Promise.resolve());
+    }).catch((err) => {
+      log.warn('failed to backfill', err);
+    });
+  }
+
+  /**
+   * Sends a message with the timestamp it originally had, using the ts parameter of the application
+   * service API. It is only honoured for ghosts, the puppet's messages get the current time.
+   * The parameter goes with every request of a client, so the message is sent by a client of its own.
+   *
+   * @returns {Promise}
+   */
+  private sendMessageWithTimestamp(client: MatrixClient, matrixRoomId: string, content: any, ts: number, txnId: string) : Promise<SendEventResponse> {
+    const timestamped : MatrixClient = matrixSdk.createClient({
+      baseUrl: client.getHomeserverUrl(),
+      accessToken: client.getAccessToken(),
+      userId: client.credentials.userId,
+      queryParams: { user_id: client.credentials.userId, ts }
+    });
+    return this.scheduler.schedule('normal', () => timestamped.sendEvent(matrixRoomId, 'm.room.message', content, txnId));
+  }
+
+  /**
+   * Whether a third party message is the echo of one the bridge sent, by its message ID,
+   * or by the deduplication tag if the adapter doesn't report message IDs
+   *
+   * @param {string} thirdPartyRoomId The encoded third party room ID
+   * @param {string} messageId
+   * @param {string} text
+   * @returns {Promise}
+   */
+  private isRemoteEcho(thirdPartyRoomId: string, messageId: string, text: string) : Promise<boolean> {
+    if (this.usesDeduplicationTag() && this.isTaggedMatrixMessage(text || '')) {
+      return Promise.resolve(true);
+    }
+    if (!messageId) {
+      return Promise.resolve(false);
+    }
+    return this.echoes.isRemoteEcho(thirdPartyRoomId, messageId);
+  }
+
+  // edits keep the ID of the message, so they are told apart by their text as well
+  private editEchoId(messageId: string, text: string) : string {
+    return 'edit:'+messageId+':'+text;
+  }
+
+  // deletions keep the ID of the message as well
+  private deletionEchoId(messageId: string) : string {
+    return 'delete:'+messageId;
+  }
+
+  private reactionRemovalEchoId(messageId: string, reaction: string) : string {
+    return 'unreact:'+messageId+':'+reaction;
+  }
+
+  // the text tag is only a fallback, for adapters which don't report message IDs
+  private usesDeduplicationTag() : boolean {
+    return !this.adapter.reportsMessageIds && !!this.deduplicationTag && !!this.deduplicationTagPattern;
+  }
   private tagMatrixMessage(text) {
-    return text+this.deduplicationTag;
+    return this.usesDeduplicationTag() ? text+this.deduplicationTag : text;
   }
   private isTaggedMatrixMessage(text) {
     return this.deduplicationTagRegex.test(text);
@@ -939,22 +2269,18 @@ export class Base {
    *
    * @param {Intent} ghostIntent represents the ghost user
    * @param {string} avatarUrl a resource on the public web
-   * @returns {Promise}
+   * @param {string} currentUri The mxc:// URI the ghost has already, it isn't set again
+   * @returns {Promise} A promise resolving to the mxc:// URI of the avatar
    */
 
-  private setGhostAvatar(ghostIntent, avatarUrl) : Promise<string> {
+  private setGhostAvatar(ghostIntent, avatarUrl, currentUri?: string) : Promise<string> {
     const client = ghostIntent.getClient();
-    info('downloading avatar from public web', avatarUrl);
-    return download.getBufferAndType(avatarUrl).then(({buffer, type})=> {
-      let opts = {
-        name: path.basename(avatarUrl),
-        type,
-        rawResponse: false
-      };
-      return client.uploadContent(buffer, opts);
-    }).then((res)=>{
-      const contentUri = res.content_uri;
-      info('uploaded avatar and got back content uri', contentUri);
+    this.log.info('fetching avatar from public web', avatarUrl);
+    return this.uploadAvatar(client, avatarUrl).then((contentUri)=>{
+      if (contentUri === currentUri) {
+        this.log.debug('avatar unchanged', contentUri);
+        return contentUri;
+      }
       return ghostIntent.setAvatarUrl(contentUri).then(() => {
         return contentUri;
       });
@@ -965,16 +2291,7 @@ export class Base {
     const botIntent = this.getIntentFromApplicationServerBot();
     const client = botIntent.getClient();
 
-    return download.getBufferAndType(avatarUrl).then(({buffer, type})=> {
-      let opts = {
-        name: path.basename(avatarUrl),
-        type,
-        rawResponse: false
-      };
-      return client.uploadContent(buffer, opts);
-    }).then((res)=>{
-      const contentUri = res.content_uri;
-      info('uploaded avatar and got back content uri', contentUri);
+    return this.uploadAvatar(client, avatarUrl).then((contentUri)=>{
       return botIntent.setRoomAvatar(roomId, contentUri);
     });
   }
@@ -984,22 +2301,63 @@ export class Base {
     const client = botIntent.getClient();
 
     return localdisk.getBufferAndType(avatarPath).then(({buffer, type})=> {
-      let opts = {
-        name: path.basename(avatarPath),
-        type,
-        rawResponse: false
-      };
-      return client.uploadContent(buffer, opts);
-    }).then((res)=>{
-      const contentUri = res.content_uri;
-      info('uploaded avatar and got back content uri', contentUri);
-      return botIntent.setRoomAvatar(roomId, contentUri);
+      return mediaCache.uploadBuffer(client, buffer, { name: path.basename(avatarPath), type });
+    }).then((media)=>{
+      return botIntent.setRoomAvatar(roomId, this.countAvatar(media));
     });
   }
 
-  public sendReadReceipt(roomId: string) {
-    if (roomId in this.thirdPartyRooms) {
-      return this.adapter.sendReadReceipt(b2a(this.thirdPartyRooms[roomId]));
+  /**
+   * Uploads an avatar through the media cache, so the same image is only downloaded
+   * when it changed and only uploaded once
+   *
+   * @param {MatrixClient} client
+   * @param {string} avatarUrl a resource on the public web
+   * @returns {Promise} A promise resolving to the mxc:// URI of the avatar
+   */
+  private uploadAvatar(client: MatrixClient, avatarUrl: string) : Promise<string> {
+    return mediaCache.uploadUrl(client, avatarUrl, { name: path.basename(avatarUrl) }).then((media) => {
+      return this.countAvatar(media);
+    });
+  }
+
+  private countAvatar(media: CachedMedia) : string {
+    if (media.downloaded) {
+      avatarDownloads.inc(this.metricLabels());
+    }
+    if (media.uploaded) {
+      avatarUploads.inc(this.metricLabels());
+      this.log.info('uploaded avatar and got back content uri', media.contentUri);
+    }
+    return media.contentUri;
+  }
+
+  public hasMatrixRoom(roomId: string) : boolean {
+    return !!this.rooms.getThirdPartyRoomId(roomId);
+  }
+
+  /**
+   * Tells the adapter the puppet read a bridged room
+   *
+   * @param {string} roomId The matrix room ID
+   * @param {string} eventId The matrix event read up to
+   * @returns {Promise}
+   */
+  public sendReadReceipt(roomId: string, eventId: string) : Promise<void> {
+    const thirdPartyRoomId = this.rooms.getThirdPartyRoomId(roomId);
+    if (!thirdPartyRoomId) {
+      return Promise.resolve();
+    }
+    return messageStore.getByMatrixEventId(this.network, this.identityPair.id, thirdPartyRoomId, eventId).then((message) => {
+      return this.adapter.sendReadReceipt(b2a(thirdPartyRoomId), message ? message.remoteId : undefined);
+    });
+  }
+
+  public sendTyping(roomId: string, typing: boolean) : Promise<void> {
+    const thirdPartyRoomId = this.rooms.getThirdPartyRoomId(roomId);
+    if (!thirdPartyRoomId || !this.adapter.sendTyping) {
+      return Promise.resolve();
     }
+    return Promise.resolve(this.adapter.sendTyping(b2a(thirdPartyRoomId), typing));
   }
 }
@@ -1,9 +1,8 @@
-const info = require('debug')('matrix-puppet:info');
-const warn = require('debug')('matrix-puppet:warn');
-const error = require('debug')('matrix-puppet:error');
-
 import { Bridge } from 'matrix-appservice-bridge';
 import { Config } from './config';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'bridge' });
 
 export interface ThirdPartyLookup {
   protocols: Array<string>;
@@ -0,0 +1,308 @@
+import * as fs  from 'async-file';
+import { Config } from './config';
+import { isSecretReference } from './secrets';
+import { parseAdapterSpec } from './adapter-registry';
+
+// e.g. MATRIX_PUPPET__users__sorunome__password overrides users.sorunome.password
+const ENV_PREFIX = 'MATRIX_PUPPET__';
+const ENV_SEPARATOR = '__';
+
+const DEFAULT_PORT = 8090;
+const DEFAULT_REGISTRATION = 'registration.yaml';
+const GHOST_STORES = ['json', 'nedb'];
+
+export interface ConfigProblem {
+  // JSON path of the offending value, e.g. $.networks.skype.identityPairs.soru.matrixPuppet
+  path: string;
+  message: string;
+}
+
+export class ConfigError extends Error {
+  public problems: ConfigProblem[];
+  constructor(file: string, problems: ConfigProblem[]) {
+    super('Invalid config '+file+':\n'+problems.map(p => '  '+p.path+': '+p.message).join('\n'));
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pathOf = (parent: string, key: string) => {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? parent+'.'+key : parent+'['+JSON.stringify(key)+']';
+};
+
+/**
+ * Collects the problems of a raw config object, filling in defaults along the way
+ */
+class ConfigValidator {
+  public problems: ConfigProblem[] = [];
+
+  private problem(path: string, message: string) {
+    this.problems.push({ path, message });
+  }
+
+  private object(parent: any, key: string, path: string, required = true) : boolean {
+    if (parent[key] === undefined && !required) {
+      parent[key] = {};
+    }
+    if (!isObject(parent[key])) {
+      this.problem(path, parent[key] === undefined ? 'is required' : 'must be an object');
+      return false;
+    }
+    return true;
+  }
+
+  private string(parent: any, key: string, path: string, required = true) {
+    const value = parent[key];
+    if (value === undefined) {
+      if (required) {
+        this.problem(path, 'is required');
+      }
+    } else if (typeof value !== 'string' || value === '') {
+      this.problem(path, 'must be a non-empty string');
+    }
+  }
+
+  // whole numbers from 0 up, numeric strings (e.g. from environment overrides) are converted
+  private count(parent: any, key: string, path: string) {
+    if (typeof parent[key] === 'string' && /^\d+$/.test(parent[key])) {
+      parent[key] = parseInt(parent[key], 10);
+    }
+    const value = parent[key];
+    if (value !== undefined && (typeof value !== 'number' || value % 1 !== 0 || value < 0)) {
+      this.problem(path, 'must be a whole number, 0 or more');
+    }
+  }
+
+  // 'true' and 'false' (e.g. from environment overrides) are converted
+  private boolean(parent: any, key: string, path: string) {
+    if (parent[key] === 'true' || parent[key] === 'false') {
+      parent[key] = parent[key] === 'true';
+    }
+    if (parent[key] !== undefined && typeof parent[key] !== 'boolean') {
+      this.problem(path, 'must be true or false');
+    }
+  }
+
+  // like string, but {"$secret": "name"} and {"$env": "VAR"} references are fine too
+  private secret(parent: any, key: string, path: string) {
+    if (!isSecretReference(parent[key])) {
+      this.string(parent, key, path, false);
+    }
+  }
+
+  private knownKeys(value: any, path: string, known: string[]) {
+    for (let key of Object.keys(value)) {
+      if (known.indexOf(key) === -1) {
+        this.problem(pathOf(path, key), 'unknown setting, expected one of '+known.join(', '));
+      }
+    }
+  }
+
+  public validate(config: any) {
+    if (!isObject(config)) {
+      this.problem('$', 'must be an object');
+      return;
+    }
+    this.knownKeys(config, '$', ['httpserver', 'homeserver', 'provisioning', 'monitoring', 'secrets', 'ghostCache', 'users', 'networks']);
+
+    if (this.object(config, 'httpserver', '$.httpserver', false)) {
+      const httpserver = config.httpserver;
+      if (httpserver.port === undefined) {
+        httpserver.port = DEFAULT_PORT;
+      }
+      if (typeof httpserver.port === 'string' && /^\d+$/.test(httpserver.port)) {
+        httpserver.port = parseInt(httpserver.port, 10);
+      }
+      if (typeof httpserver.port !== 'number' || httpserver.port % 1 !== 0 || httpserver.port < 1 || httpserver.port > 65535) {
+        this.problem('$.httpserver.port', 'must be a port number');
+      }
+    }
+
+    if (this.object(config, 'homeserver', '$.homeserver')) {
+      const homeserver = config.homeserver;
+      this.knownKeys(homeserver, '$.homeserver', ['domain', 'url', 'registration']);
+      this.string(homeserver, 'domain', '$.homeserver.domain');
+      this.string(homeserver, 'url', '$.homeserver.url');
+      if (typeof homeserver.url === 'string' && !/^https?:\/\//.test(homeserver.url)) {
+        this.problem('$.homeserver.url', 'must be a http(s) URL');
+      }
+      if (homeserver.registration === undefined) {
+        homeserver.registration = DEFAULT_REGISTRATION;
+      }
+      this.string(homeserver, 'registration', '$.homeserver.registration');
+    }
+
+    if (config.provisioning !== undefined && this.object(config, 'provisioning', '$.provisioning')) {
+      this.knownKeys(config.provisioning, '$.provisioning', ['sharedSecret']);
+      this.string(config.provisioning, 'sharedSecret', '$.provisioning.sharedSecret');
+    }
+
+    if (config.monitoring !== undefined && this.object(config, 'monitoring', '$.monitoring')) {
+      this.knownKeys(config.monitoring, '$.monitoring', ['sharedSecret']);
+      this.string(config.monitoring, 'sharedSecret', '$.monitoring.sharedSecret');
+    }
+
+    if (config.secrets !== undefined && this.object(config, 'secrets', '$.secrets')) {
+      this.knownKeys(config.secrets, '$.secrets', ['store', 'keyFile']);
+      this.string(config.secrets, 'store', '$.secrets.store');
+      this.string(config.secrets, 'keyFile', '$.secrets.keyFile', false);
+    }
+
+    if (config.ghostCache !== undefined && this.object(config, 'ghostCache', '$.ghostCache')) {
+      this.knownKeys(config.ghostCache, '$.ghostCache', ['store', 'file']);
+      if (config.ghostCache.store !== undefined && GHOST_STORES.indexOf(config.ghostCache.store) === -1) {
+        this.problem('$.ghostCache.store', 'must be one of '+GHOST_STORES.join(', '));
+      }
+      this.string(config.ghostCache, 'file', '$.ghostCache.file', false);
+    }
+
+    if (this.object(config, 'users', '$.users')) {
+      for (let localpart of Object.keys(config.users)) {
+        const path = pathOf('$.users', localpart);
+        if (!this.object(config.users, localpart, path)) {
+          continue;
+        }
+        const user = config.users[localpart];
+        this.knownKeys(user, path, ['password', 'token']);
+        this.secret(user, 'password', path+'.password');
+        this.secret(user, 'token', path+'.token');
+        if (user.password === undefined && user.token === undefined) {
+          this.problem(path, "must have a 'token' or 'password' to login");
+        }
+      }
+    }
+
+    if (this.object(config, 'networks', '$.networks', false)) {
+      for (let network of Object.keys(config.networks)) {
+        const path = pathOf('$.networks', network);
+        if (!/^[a-z]+$/.test(network)) {
+          this.problem(path, 'network names may only contain lowercase letters');
+        }
+        if (!this.object(config.networks, network, path)) {
+          continue;
+        }
+        const settings = config.networks[network];
+        this.knownKeys(settings, path, ['adapter', 'installAdapter', 'backfill', 'roomSync', 'identityPairs']);
+        this.string(settings, 'adapter', path+'.adapter', false);
+        if (typeof settings.adapter === 'string' && settings.adapter !== '') {
+          try {
+            parseAdapterSpec(settings.adapter);
+          } catch (err) {
+            this.problem(path+'.adapter', err.message);
+          }
+        }
+        this.boolean(settings, 'installAdapter', path+'.installAdapter');
+        if (settings.installAdapter === true && settings.adapter === undefined) {
+          this.problem(path+'.installAdapter', 'needs an adapter package pinned to a version');
+        }
+        if (settings.backfill !== undefined && this.object(settings, 'backfill', path+'.backfill')) {
+          this.knownKeys(settings.backfill, path+'.backfill', ['limit', 'maxAgeDays']);
+          this.count(settings.backfill, 'limit', path+'.backfill.limit');
+          this.count(settings.backfill, 'maxAgeDays', path+'.backfill.maxAgeDays');
+        }
+        if (settings.roomSync !== undefined && this.object(settings, 'roomSync', path+'.roomSync')) {
+          this.knownKeys(settings.roomSync, path+'.roomSync', ['intervalMinutes']);
+          this.count(settings.roomSync, 'intervalMinutes', path+'.roomSync.intervalMinutes');
+        }
+        if (!this.object(config.networks[network], 'identityPairs', path+'.identityPairs', false)) {
+          continue;
+        }
+        const identityPairs = config.networks[network].identityPairs;
+        for (let id of Object.keys(identityPairs)) {
+          const identPath = pathOf(path+'.identityPairs', id);
+          if (!/^\w+$/.test(id)) {
+            this.problem(identPath, 'identity pair ids may only contain letters, digits and underscores');
+          }
+          if (!this.object(identityPairs, id, identPath)) {
+            continue;
+          }
+          const ident = identityPairs[id];
+          this.knownKeys(ident, identPath, ['matrixPuppet', 'thirdParty']);
+          this.string(ident, 'matrixPuppet', identPath+'.matrixPuppet');
+          if (typeof ident.matrixPuppet === 'string' && isObject(config.users) && !(ident.matrixPuppet in config.users)) {
+            this.problem(identPath+'.matrixPuppet', 'unknown matrix puppet '+JSON.stringify(ident.matrixPuppet)+', it must be one of the users');
+          }
+          this.object(ident, 'thirdParty', identPath+'.thirdParty', false);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Applies overrides from environment variables, so secrets don't need to live in the config file.
+ * MATRIX_PUPPET__users__sorunome__password=hunter2 sets users.sorunome.password
+ *
+ * @returns {ConfigProblem[]} Problems with the overrides
+ */
+export function applyEnvOverrides(config: any, env: { [name: string]: string }) : ConfigProblem[] {
+  let problems : ConfigProblem[] = [];
+  if (!isObject(config)) {
+    return problems;
+  }
+  for (let name of Object.keys(env).sort()) {
+    if (name.indexOf(ENV_PREFIX) !== 0) {
+      continue;
+    }
+    const keys = name.substr(ENV_PREFIX.length).split(ENV_SEPARATOR);
+    if (keys.some(k => k === '')) {
+      problems.push({ path: '$env.'+name, message: 'malformed override name' });
+      continue;
+    }
+    let target = config;
+    let path = '$';
+    for (let key of keys.slice(0, -1)) {
+      path = pathOf(path, key);
+      if (target[key] === undefined) {
+        target[key] = {};
+      }
+      if (!isObject(target[key])) {
+        problems.push({ path, message: 'cannot be overridden by '+name+', it is not an object' });
+        target = null;
+        break;
+      }
+      target = target[key];
+    }
+    if (target) {
+      target[keys[keys.length - 1]] = env[name];
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validates a raw config object, applying defaults and environment overrides
+ *
+ * @param {object} raw The parsed config file, it is modified in place
+ * @param {object} env The environment, for overrides
+ * @returns {ConfigProblem[]} All problems found, empty if the config is valid
+ */
+export function validateConfig(raw: any, env: { [name: string]: string } = {}) : ConfigProblem[] {
+  const problems = applyEnvOverrides(raw, env);
+  const validator = new ConfigValidator();
+  validator.validate(raw);
+  return problems.concat(validator.problems);
+}
+
+/**
+ * Reads and validates a config file
+ *
+ * @param {string} jsonFile Path of the config file
+ * @param {object} env The environment, for overrides
+ * @returns {Promise} A promise resolving to the Config, rejects with a ConfigError listing all problems
+ */
+export async function loadConfig(jsonFile: string, env: { [name: string]: string } = process.env) : Promise<Config> {
+  let raw;
+  try {
+    raw = JSON.parse(await fs.readFile(jsonFile));
+  } catch (err) {
+    throw new ConfigError(jsonFile, [{ path: '$', message: err.message }]);
+  }
+  const problems = validateConfig(raw, env);
+  if (problems.length > 0) {
+    throw new ConfigError(jsonFile, problems);
+  }
+  return <Config>raw;
+}
@@ -1,3 +1,6 @@
+import { SecretReference, SecretsConfig } from './secrets';
+import { GhostCacheConfig } from './ghost-store';
+
 export interface IdentityPair_Config {
   // Short string to distinguishes this pair from others on the homeserver, used in alises and ghost ids.
   id?: string;
@@ -5,7 +8,7 @@ export interface IdentityPair_Config {
   // Credentials for the matrix user to puppet
   matrixPuppet: string;
 
-  // Credentials for the third party network account to pair with the puppet
+  // Credentials for the third party network account to pair with the puppet, values may be secret references
   thirdParty: any;
 }
 
@@ -20,17 +23,54 @@ export interface Homeserver {
 }
 
 export interface User {
-  password?: string;
-  token?: string;
+  password?: string | SecretReference;
+  token?: string | SecretReference;
+}
+
+export interface Backfill {
+  // the most messages imported into a new room, 0 turns backfill off
+  limit?: number;
+  // only messages younger than this are imported
+  maxAgeDays?: number;
+}
+
+export interface RoomSync {
+  // how often the name, topic and avatar of all bridged rooms are fetched again, 0 turns it off
+  intervalMinutes?: number;
 }
 
 export interface Network {
-  identityPairs: Map<string, IdentityPair_Config>;
+  // Where the adapter comes from: a path to a local module, or a package pinned to an exact version,
+  // e.g. 'matrix-puppet-skype@1.2.0'. Defaults to the installed package matrix-puppet-<network>.
+  adapter?: string;
+
+  // Install the pinned adapter package with npm if it is missing, off by default
+  installAdapter?: boolean;
+
+  backfill?: Backfill;
+
+  roomSync?: RoomSync;
+
+  identityPairs: { [id: string]: IdentityPair_Config };
+}
+
+export interface Provisioning {
+  // clients must send it as 'Authorization: Bearer <sharedSecret>'
+  sharedSecret: string;
+}
+
+export interface Monitoring {
+  // Prometheus and health checks must send it as 'Authorization: Bearer <sharedSecret>'
+  sharedSecret: string;
 }
 
 export interface Config {
   httpserver: Httpserver;
   homeserver: Homeserver;
-  users: Map<string, User>;
-  networks: Map<string, Network>;
+  provisioning?: Provisioning;
+  monitoring?: Monitoring;
+  secrets?: SecretsConfig;
+  ghostCache?: GhostCacheConfig;
+  users: { [localpart: string]: User };
+  networks: { [network: string]: Network };
 }
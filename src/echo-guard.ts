@@ -0,0 +1,162 @@
+// how long sent IDs are remembered, echoes arrive within seconds
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+// how long to wait for the sends in progress, in case one of them waits for its own echo
+const PENDING_WAIT_MS = 10000;
+
+/**
+ * IDs which are forgotten after a while
+ */
+class ExpiringSet {
+  private ttlMs: number;
+  private expiries: Map<string, number> = new Map<string, number>();
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  public add(id: string) {
+    this.prune();
+    this.expiries.set(id, Date.now() + this.ttlMs);
+  }
+
+  public has(id: string) : boolean {
+    this.prune();
+    return this.expiries.has(id);
+  }
+
+  // entries are kept in insertion order, so the oldest ones come first
+  private prune() {
+    const now = Date.now();
+    for (let [id, expiry] of this.expiries) {
+      if (expiry > now) {
+        return;
+      }
+      this.expiries.delete(id);
+    }
+  }
+}
+
+/**
+ * What the bridge sent itself to one side, matrix or the third party network,
+ * so that it isn't bridged back when it shows up there
+ */
+class SentLog {
+  private ids: ExpiringSet;
+  // sends in progress per room, their echo may arrive before we know their ID
+  private pending: { [room: string]: Promise<void>[] } = {};
+
+  constructor(ttlMs: number) {
+    this.ids = new ExpiringSet(ttlMs);
+  }
+
+  public add(id: string) {
+    this.ids.add(id);
+  }
+
+  /**
+   * @param {string} room
+   * @param {function} send Does the sending
+   * @param {function} idOf Picks the ID out of the result, if there is one
+   * @returns {Promise} The result of send
+   */
+  public track<T>(room: string, send: () => Promise<T>, idOf: (result: T) => string) : Promise<T> {
+    const sending = Promise.resolve().then(send).then((result) => {
+      const id = idOf(result);
+      if (id) {
+        this.ids.add(id);
+      }
+      return result;
+    });
+    const settled = sending.then(() => {}, () => {});
+    this.pending[room] = (this.pending[room] || []).concat([settled]);
+    settled.then(() => {
+      this.pending[room] = this.pending[room].filter(p => p !== settled);
+      if (this.pending[room].length === 0) {
+        delete this.pending[room];
+      }
+    });
+    return sending;
+  }
+
+  /**
+   * Whether one of the IDs was sent by us. Waits for the sends in progress in the room first.
+   */
+  public contains(room: string, ids: string[]) : Promise<boolean> {
+    const known = () => ids.some(id => !!id && this.ids.has(id));
+    if (known() || !this.pending[room]) {
+      return Promise.resolve(known());
+    }
+    let timer : NodeJS.Timer;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, PENDING_WAIT_MS);
+    });
+    return Promise.race([Promise.all(this.pending[room]), timeout]).then(() => {
+      clearTimeout(timer);
+      return known();
+    });
+  }
+}
+
+/**
+ * Tells echoes of what the bridge sent apart from new messages, in both directions:
+ * by the matrix event and transaction IDs of what we sent to matrix, and by the
+ * message IDs the adapter reports for what we sent to the third party network
+ */
+export class EchoGuard {
+  private matrix: SentLog;
+  private remote: SentLog;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.matrix = new SentLog(ttlMs);
+    this.remote = new SentLog(ttlMs);
+  }
+
+  /**
+   * Sends something to a matrix room and remembers its event ID
+   *
+   * @param {string} matrixRoomId
+   * @param {function} send Does the sending, resolves to the send event response
+   * @param {string} txnId The transaction ID used for sending, if it was chosen by us
+   * @returns {Promise} The result of send
+   */
+  public sendToMatrix<T extends { event_id: string }>(matrixRoomId: string, send: () => Promise<T>, txnId?: string) : Promise<T> {
+    if (txnId) {
+      this.matrix.add(txnId);
+    }
+    return this.matrix.track(matrixRoomId, send, res => res && res.event_id);
+  }
+
+  /**
+   * Whether a matrix event was sent by the bridge
+   *
+   * @param {object} event The raw event
+   * @returns {Promise}
+   */
+  public isMatrixEcho(event: any) : Promise<boolean> {
+    const txnId = event.unsigned && event.unsigned.transaction_id;
+    return this.matrix.contains(event.room_id, [event.event_id, txnId]);
+  }
+
+  /**
+   * Sends something to a third party room and remembers the message ID the adapter resolves to
+   *
+   * @param {string} thirdPartyRoomId
+   * @param {function} send Does the sending
+   * @param {string} echoId Remembered instead, for sends which don't resolve to a message ID, e.g. edits
+   * @returns {Promise} The result of send
+   */
+  public sendToRemote<T>(thirdPartyRoomId: string, send: () => Promise<T>, echoId?: string) : Promise<T> {
+    return this.remote.track(thirdPartyRoomId, send, id => echoId || (typeof id === 'string' ? id : null));
+  }
+
+  /**
+   * Whether a third party message was sent by the bridge
+   *
+   * @param {string} thirdPartyRoomId
+   * @param {string} messageId
+   * @returns {Promise}
+   */
+  public isRemoteEcho(thirdPartyRoomId: string, messageId: string) : Promise<boolean> {
+    return this.remote.contains(thirdPartyRoomId, [messageId]);
+  }
+}
@@ -1,84 +1,194 @@
 import * as fs  from 'async-file';
+import * as path from 'path';
+import { readJsonFile } from './json-file';
+import { logger } from './logger';
+import { GhostEntry, GhostStore, DEFAULT_JSON_FILE } from './ghost-store';
 
-interface GhostCacheInterface {
-  name?: string;
-  avatarUrl?: string;
-  associatedNames?: string[];
-  associatedAvatarUrls?: string[];
+const log = logger.child({ component: 'ghost-cache' });
+
+export interface GhostNamespace {
+  network: string;
+  identityPairId: string;
 }
 
+const prefixOf = (network: string, identityPairId: string) => network+'/'+identityPairId+'/';
+
+/**
+ * Caches the names and avatars of the ghosts, so their profiles are only updated when they
+ * change. Entries are kept per network and identity pair, in a pluggable store.
+ */
 export class GhostCache {
-  private filePath: string;
-  private cache: Map<string, GhostCacheInterface> = new Map<string, GhostCacheInterface>();
-  constructor(filePath: string) {
-    this.filePath = filePath;
-    
-  }
-  public load() : Promise<void> {
-    return fs.readFile(this.filePath).catch((err) => {
-      if (err.errno == -2) {
-        return fs.writeFile(this.filePath, "{}").then(() => {
-          return fs.readFile(this.filePath);
-        });
+  private store: GhostStore = null;
+  // changes in progress per key, so concurrent ones don't overwrite each other
+  private locks: { [key: string]: Promise<void> } = {};
+
+  /**
+   * Loads the store, and migrates entries of older versions
+   *
+   * @param {GhostStore} store
+   * @param {GhostNamespace[]} identityPairs The configured identity pairs, for the migration
+   * @param {string} legacyFile The JSON file of older versions
+   * @returns {Promise}
+   */
+  public open(store: GhostStore, identityPairs: GhostNamespace[], legacyFile: string = DEFAULT_JSON_FILE) : Promise<void> {
+    this.store = store;
+    return store.load().then(() => {
+      if (path.resolve(store.filePath) === path.resolve(legacyFile)) {
+        return; // the store reads it itself
+      }
+      return this.importLegacyFile(legacyFile);
+    }).then(() => {
+      return this.migrate(identityPairs);
+    }).then(() => {
+      return store.keys();
+    }).then((keys) => {
+      log.debug('loaded ghost cache with', keys.length, 'ghosts');
+    });
+  }
+
+  /**
+   * Writes pending changes and stops the store, on shutdown
+   *
+   * @returns {Promise}
+   */
+  public close() : Promise<void> {
+    if (!this.store) {
+      return Promise.resolve();
+    }
+    return Promise.all(Object.keys(this.locks).map(key => this.locks[key])).then(() => {
+      return this.store.close();
+    });
+  }
+
+  /**
+   * The entries of one identity pair
+   */
+  public forIdentityPair(network: string, identityPairId: string) : IdentityPairGhostCache {
+    return new IdentityPairGhostCache(this, prefixOf(network, identityPairId));
+  }
+
+  public get(key: string) : Promise<GhostEntry> {
+    return this.store.get(key);
+  }
+
+  /**
+   * Changes an entry, one change per key at a time
+   *
+   * @param {string} key
+   * @param {function} change Changes the entry in place, and returns whether it did change anything
+   * @returns {Promise}
+   */
+  public modify(key: string, change: (entry: GhostEntry) => boolean) : Promise<void> {
+    const previous = this.locks[key] || Promise.resolve();
+    const current = previous.then(() => this.store.get(key)).then((entry) => {
+      let copy : GhostEntry = { ...(entry || {}) };
+      if (change(copy)) {
+        return this.store.set(key, copy);
+      }
+    });
+    const settled = this.locks[key] = current.catch(() => {});
+    settled.then(() => {
+      if (this.locks[key] === settled) {
+        delete this.locks[key];
       }
-      return Promise.reject(err);
-    }).then((buffer) => {
-      this.cache = <Map<string, GhostCacheInterface>>JSON.parse(buffer);
-      console.log(this.cache);
+    });
+    return current;
+  }
+
+  // the JSON file of older versions, for stores kept elsewhere
+  private importLegacyFile(legacyFile: string) : Promise<void> {
+    return readJsonFile(legacyFile, log).then((legacy) => {
+      if (!legacy) {
+        return; // nothing to import
+      }
+      const ghosts = Object.keys(legacy);
+      log.info('importing', ghosts.length, 'ghosts from', legacyFile);
+      return Promise.all(ghosts.map(ghost => this.store.set(ghost, legacy[ghost]))).then(() => {
+        // the file is only moved aside once the entries are safe
+        return this.store.flush();
+      }).then(() => {
+        return fs.rename(legacyFile, legacyFile+'.migrated');
+      });
+    });
+  }
+
+  // Older versions keyed the entries by ghost user ID alone. Those IDs start with
+  // '@<network>_puppet_<identity pair>_', so they are moved to the namespace of that pair.
+  private migrate(identityPairs: GhostNamespace[]) : Promise<void> {
+    // longest first, identity pair IDs may contain underscores
+    const candidates = identityPairs.map(({ network, identityPairId }) => ({
+      ghostPrefix: '@'+network+'_puppet_'+identityPairId+'_',
+      prefix: prefixOf(network, identityPairId)
+    })).sort((a, b) => b.ghostPrefix.length - a.ghostPrefix.length);
+    return this.store.keys().then((keys) => {
+      const legacy = keys.filter(key => key.indexOf('/') === -1);
+      let migrated = 0;
+      return legacy.reduce((prev, ghost) => prev.then(() => {
+        const candidate = candidates.find(c => ghost.indexOf(c.ghostPrefix) === 0);
+        if (!candidate) {
+          return; // kept, its identity pair may come back
+        }
+        migrated++;
+        return this.store.get(ghost).then((entry) => {
+          return this.store.set(candidate.prefix+ghost, entry);
+        }).then(() => {
+          return this.store.remove(ghost);
+        });
+      }), Promise.resolve()).then(() => {
+        if (migrated > 0) {
+          log.info('migrated', migrated, 'ghosts to their identity pair');
+          return this.store.flush();
+        }
+      });
     });
   }
-  private writeCache() : Promise<void> {
-    return fs.writeFile(this.filePath, JSON.stringify(this.cache, null, 2));
+}
+
+/**
+ * The ghost cache of one identity pair, keyed by ghost user ID
+ */
+export class IdentityPairGhostCache {
+  private cache: GhostCache;
+  private prefix: string;
+
+  constructor(cache: GhostCache, prefix: string) {
+    this.cache = cache;
+    this.prefix = prefix;
   }
+
   private has(ghost: string, prop: string) : Promise<boolean> {
-    if (!(ghost in this.cache)) {
-      return Promise.resolve(false);
-    }
-    if (this.cache[prop]) {
-      return Promise.resolve(true);
-    }
-    return Promise.resolve(false);
+    return this.cache.get(this.prefix+ghost).then((entry) => {
+      return !!entry && !!entry[prop];
+    });
   }
   private shouldUpdate(ghost: string, val: string, prop: string) : Promise<boolean> {
-    if (!(ghost in this.cache)) {
-      return Promise.resolve(true);
-    }
-    const g : GhostCacheInterface = this.cache[ghost];
-    if (!g[prop] || g[prop] != val) {
-      return Promise.resolve(true);
-    }
-    return Promise.resolve(false);
+    return this.cache.get(this.prefix+ghost).then((entry) => {
+      return !entry || !entry[prop] || entry[prop] != val;
+    });
   }
   private update(ghost: string, val: string, prop: string) : Promise<void> {
-    return this.shouldUpdate(ghost, val, prop).then((should) => {
-      if (!should) {
-        return;
+    return this.cache.modify(this.prefix+ghost, (entry) => {
+      if (entry[prop] == val) {
+        return false;
       }
-      if (!(ghost in this.cache)) {
-        this.cache[ghost] = <GhostCacheInterface>{};
-      }
-      this.cache[ghost][prop] = val;
-      return this.writeCache();
-    })
+      entry[prop] = val;
+      return true;
+    });
   }
   private associate(ghost: string, id: string, prop: string) : Promise<void> {
-    if (!(ghost in this.cache)) {
-      this.cache[ghost] = <GhostCacheInterface>{};
-    }
-    if (!this.cache[ghost][prop]) {
-      this.cache[ghost][prop] = [];
-    }
-    if (this.cache[ghost][prop].indexOf(id) != -1) {
-      return Promise.resolve(); // nothing to do!
-    }
-    this.cache[ghost][prop].push(id);
-    return this.writeCache();
+    return this.cache.modify(this.prefix+ghost, (entry) => {
+      const ids : string[] = entry[prop] || [];
+      if (ids.indexOf(id) != -1) {
+        return false; // nothing to do!
+      }
+      entry[prop] = ids.concat([id]);
+      return true;
+    });
   }
   private getAssociated(ghost: string, prop: string) : Promise<string[]> {
-    if (!(ghost in this.cache) || !this.cache[ghost] || !this.cache[ghost][prop]) {
-      return Promise.resolve([]);
-    }
-    return Promise.resolve(this.cache[ghost][prop]);
+    return this.cache.get(this.prefix+ghost).then((entry) => {
+      return entry && entry[prop] ? entry[prop] : [];
+    });
   }
   public hasName(ghost: string) : Promise<boolean> {
     return this.has(ghost, 'name');
@@ -104,6 +214,14 @@ export class GhostCache {
   public updateAvatarUrl(ghost: string, url: string) : Promise<void> {
     return this.update(ghost, url, 'avatarUrl');
   }
+  public getAvatarContentUri(ghost: string) : Promise<string> {
+    return this.cache.get(this.prefix+ghost).then((entry) => {
+      return entry && entry.avatarContentUri ? entry.avatarContentUri : null;
+    });
+  }
+  public updateAvatarContentUri(ghost: string, contentUri: string) : Promise<void> {
+    return this.update(ghost, contentUri, 'avatarContentUri');
+  }
   public associateAvatarUrl(ghost: string, id: string) : Promise<void> {
     return this.associate(ghost, id, 'associatedAvatarUrls');
   }
@@ -112,4 +230,4 @@ export class GhostCache {
   }
 }
 
-export const ghostCache = new GhostCache('ghost_cache.json');
+export const ghostCache = new GhostCache();
@@ -0,0 +1,185 @@
+import * as Datastore from 'nedb';
+import { JsonFileWriter, readJsonFile } from './json-file';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'ghost-store' });
+
+// how often the database file is compacted, it is only ever appended to otherwise
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_JSON_FILE = 'ghost_cache.json';
+export const DEFAULT_NEDB_FILE = 'ghost_cache.db';
+
+/**
+ * What we know about a ghost, so we don't update its profile needlessly
+ */
+export interface GhostEntry {
+  name?: string;
+  avatarUrl?: string;
+  // the mxc:// URI the avatar was uploaded to, a new avatarUrl may still be the same image
+  avatarContentUri?: string;
+  // matrix rooms named or with an avatar after the ghost, e.g. direct chats
+  associatedNames?: string[];
+  associatedAvatarUrls?: string[];
+}
+
+/**
+ * Where the ghost cache keeps its entries
+ */
+export interface GhostStore {
+  // where the entries are kept
+  readonly filePath: string;
+  load(): Promise<void>;
+  // resolves to null for unknown keys
+  get(key: string): Promise<GhostEntry>;
+  set(key: string, entry: GhostEntry): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  // resolves once all changes are on disk
+  flush(): Promise<void>;
+  // flushes and stops background work, on shutdown
+  close(): Promise<void>;
+}
+
+export interface GhostCacheConfig {
+  store?: 'json' | 'nedb';
+  file?: string;
+}
+
+/**
+ * Keeps the entries in memory and writes them to a JSON file, see JsonFileWriter
+ */
+export class JsonGhostStore implements GhostStore {
+  public readonly filePath: string;
+  private entries: { [key: string]: GhostEntry } = {};
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.writer = new JsonFileWriter(filePath, () => this.entries, log, { indent: 2 });
+  }
+
+  public load() : Promise<void> {
+    return readJsonFile(this.filePath, log).then((entries) => {
+      this.entries = entries || {};
+    });
+  }
+
+  public get(key: string) : Promise<GhostEntry> {
+    return Promise.resolve(this.entries[key] || null);
+  }
+
+  public set(key: string, entry: GhostEntry) : Promise<void> {
+    this.entries[key] = entry;
+    this.writer.schedule();
+    return Promise.resolve();
+  }
+
+  public remove(key: string) : Promise<void> {
+    delete this.entries[key];
+    this.writer.schedule();
+    return Promise.resolve();
+  }
+
+  public keys() : Promise<string[]> {
+    return Promise.resolve(Object.keys(this.entries));
+  }
+
+  public flush() : Promise<void> {
+    return this.writer.flush();
+  }
+
+  public close() : Promise<void> {
+    return this.flush();
+  }
+}
+
+// the part of nedb we use, it comes without typings
+interface NedbPersistence {
+  setAutocompactionInterval(intervalMs: number): void;
+  stopAutocompaction(): void;
+}
+
+interface NedbDatastore {
+  persistence: NedbPersistence;
+  loadDatabase(callback: (err: Error) => void): void;
+  findOne(query: any, callback: (err: Error, doc: any) => void): void;
+  find(query: any, projection: any, callback: (err: Error, docs: any[]) => void): void;
+  update(query: any, doc: any, options: { upsert?: boolean }, callback: (err: Error) => void): void;
+  remove(query: any, options: { multi?: boolean }, callback: (err: Error) => void): void;
+}
+
+/**
+ * Keeps the entries in an embedded nedb database, one document per key
+ */
+export class NedbGhostStore implements GhostStore {
+  public readonly filePath: string;
+  private db: NedbDatastore;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.db = new Datastore({ filename: filePath });
+  }
+
+  public load() : Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.db.loadDatabase((err) => err ? reject(err) : resolve());
+    }).then(() => {
+      this.db.persistence.setAutocompactionInterval(COMPACTION_INTERVAL_MS);
+    });
+  }
+
+  public get(key: string) : Promise<GhostEntry> {
+    return new Promise<GhostEntry>((resolve, reject) => {
+      this.db.findOne({ _id: key }, (err, doc) => {
+        if (err) {
+          return reject(err);
+        }
+        if (!doc) {
+          return resolve(null);
+        }
+        const { _id, ...entry } = doc;
+        resolve(entry);
+      });
+    });
+  }
+
+  public set(key: string, entry: GhostEntry) : Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.db.update({ _id: key }, { ...entry, _id: key }, { upsert: true }, (err) => err ? reject(err) : resolve());
+    });
+  }
+
+  public remove(key: string) : Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.db.remove({ _id: key }, {}, (err) => err ? reject(err) : resolve());
+    });
+  }
+
+  public keys() : Promise<string[]> {
+    return new Promise<string[]>((resolve, reject) => {
+      this.db.find({}, { _id: 1 }, (err, docs) => err ? reject(err) : resolve(docs.map(d => d._id)));
+    });
+  }
+
+  public flush() : Promise<void> {
+    // every change is appended to the file right away
+    return Promise.resolve();
+  }
+
+  public close() : Promise<void> {
+    this.db.persistence.stopAutocompaction();
+    return this.flush();
+  }
+}
+
+/**
+ * @param {GhostCacheConfig} config The ghostCache settings, JSON by default
+ * @returns {GhostStore}
+ */
+export function createGhostStore(config: GhostCacheConfig = {}) : GhostStore {
+  if (config.store === 'nedb') {
+    return new NedbGhostStore(config.file || DEFAULT_NEDB_FILE);
+  }
+  return new JsonGhostStore(config.file || DEFAULT_JSON_FILE);
+}
@@ -0,0 +1,109 @@
+import { Bridge } from 'matrix-appservice-bridge';
+import { Puppet } from './puppet';
+import { Base } from './base';
+import { AdapterState } from './supervisor';
+import { hasBearerToken } from './http-auth';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'health' });
+
+// sync states of a matrix client which is up to date
+const READY_SYNC_STATES = ['PREPARED', 'SYNCING'];
+// sync states of a matrix client which won't recover by itself
+const UNHEALTHY_SYNC_STATES = ['ERROR', 'STOPPED', 'LOGGED_OUT'];
+
+const READY_ADAPTER_STATES : AdapterState[] = ['connected'];
+const UNHEALTHY_ADAPTER_STATES : AdapterState[] = ['failed'];
+
+/**
+ * What the health endpoints need from the running app
+ */
+export interface HealthHost {
+  getPuppets(): Puppet[];
+}
+
+export interface IdentityPairHealth {
+  network: string;
+  id: string;
+  state: AdapterState;
+  ready: boolean;
+  healthy: boolean;
+}
+
+export interface PuppetHealth {
+  userId: string;
+  syncState: string;
+  ready: boolean;
+  healthy: boolean;
+  identityPairs: IdentityPairHealth[];
+}
+
+export interface HealthReport {
+  // healthy: everything is running, or recovering by itself
+  healthy: boolean;
+  // ready: all puppets are synced and all adapters connected
+  ready: boolean;
+  puppets: PuppetHealth[];
+}
+
+const describeBase = (base: Base) : IdentityPairHealth => {
+  const state = base.getConnectionState();
+  return {
+    network: base.getNetwork(),
+    id: base.getIdentityPairId(),
+    state,
+    ready: READY_ADAPTER_STATES.indexOf(state) !== -1,
+    healthy: UNHEALTHY_ADAPTER_STATES.indexOf(state) === -1
+  };
+};
+
+const describePuppet = (puppet: Puppet) : PuppetHealth => {
+  const syncState = puppet.getSyncState();
+  const identityPairs = puppet.getBases().map(describeBase);
+  return {
+    userId: puppet.userId,
+    syncState,
+    ready: READY_SYNC_STATES.indexOf(syncState) !== -1 && identityPairs.every(p => p.ready),
+    healthy: UNHEALTHY_SYNC_STATES.indexOf(syncState) === -1 && identityPairs.every(p => p.healthy),
+    identityPairs
+  };
+};
+
+/**
+ * Breaks down the state of all puppets and their identity pairs
+ */
+export function getHealthReport(host: HealthHost) : HealthReport {
+  const puppets = host.getPuppets().map(describePuppet);
+  return {
+    healthy: puppets.every(p => p.healthy),
+    ready: puppets.every(p => p.ready),
+    puppets
+  };
+}
+
+/**
+ * Serves /health and /ready on the HTTP listener of the bridge, it has to be running already.
+ * Both answer with the full report, the status code is 200 or 503 depending on the aggregate.
+ *
+ * @param {Bridge} bridge
+ * @param {HealthHost} host
+ * @param {string} sharedSecret Requests must send it as bearer token, the report names users and networks
+ */
+export function registerHealthEndpoints(bridge: Bridge, host: HealthHost, sharedSecret: string) {
+  const endpoint = (path: string, check: (report: HealthReport) => boolean) => {
+    bridge.addAppServicePath({
+      method: 'GET',
+      path,
+      handler: (req, res) => {
+        if (!hasBearerToken(req, sharedSecret)) {
+          return res.status(401).json({ error: 'Unauthorized' });
+        }
+        const report = getHealthReport(host);
+        res.status(check(report) ? 200 : 503).json(report);
+      }
+    });
+  };
+  endpoint('/health', report => report.healthy);
+  endpoint('/ready', report => report.ready);
+  log.info('health checks available at /health and /ready');
+}
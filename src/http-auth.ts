@@ -0,0 +1,19 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Checks that a request to the HTTP listener of the bridge carries the shared secret, as
+ * 'Authorization: Bearer <secret>'. Not from the query string, it would end up in access logs.
+ *
+ * @param {object} req The express request
+ * @param {string} sharedSecret
+ * @returns {boolean}
+ */
+export function hasBearerToken(req: any, sharedSecret: string) : boolean {
+  const header = req.headers['authorization'];
+  if (typeof header !== 'string' || header.indexOf('Bearer ') !== 0) {
+    return false;
+  }
+  const given = Buffer.from(header.substr(7));
+  const expected = Buffer.from(sharedSecret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -1,3 +1,34 @@
 import { App } from './app'
+import { loadConfig } from './config-loader';
+import { migrateSecrets } from './migrate-secrets';
+import { configureLogging, logger } from './logger';
 
-new App().start('config.json');
+const configPath = 'config.json';
+
+configureLogging();
+
+const log = logger.child({ component: 'cli' });
+
+// The one-off commands print their result to stdout on purpose, it is meant for
+// people and scripts, not the log. Their failures go through the logger.
+
+if (process.argv.indexOf('--check-config') !== -1) {
+  // only validate the config, without starting the bridge
+  loadConfig(configPath).then(() => {
+    console.log(configPath + ' is valid');
+  }, (err) => {
+    log.error(err.message);
+    process.exit(1);
+  });
+} else if (process.argv.indexOf('--migrate-secrets') !== -1) {
+  // move plaintext passwords and tokens into the secrets store
+  migrateSecrets(configPath).then((names) => {
+    console.log('Migrated ' + names.length + ' secret(s) of ' + configPath);
+    names.forEach(name => console.log('  ' + name));
+  }, (err) => {
+    log.error('failed to migrate the secrets of', configPath, err);
+    process.exit(1);
+  });
+} else {
+  new App().start(configPath);
+}
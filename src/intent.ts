@@ -1,4 +1,4 @@
-import { MatrixClient } from './matrix-client';
+import { MatrixClient, SendEventResponse } from './matrix-client';
 
 export interface CreateRoomParams {
   createAsClient?: boolean;
@@ -17,9 +17,12 @@ export interface Intent {
   setPowerLevel(roomId: string, userId: string, level: number): Promise<void>;
   createRoom(CreateRoomParams): Promise<{room_id: string}>;
   join(roomId: string): Promise<void>;
-  sendMessage(roomId: string, SendMessageParams): Promise<void>;
+  sendMessage(roomId: string, SendMessageParams): Promise<SendEventResponse>;
   setDisplayName(name: string): Promise<void>;
   leave(roomId: string): Promise<void>;
   setRoomAvatar(roomId: string, mxContentUri: string): Promise<void>;
+  setRoomName(roomId: string, name: string): Promise<void>;
+  setRoomTopic(roomId: string, topic: string): Promise<void>;
   createAlias(alias: string, roomId: string): Promise<void>;
+  setPresence(presence: string): Promise<void>;
 }
@@ -0,0 +1,147 @@
+import * as fs from 'async-file';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { Logger } from './logger';
+
+// changes within this time are written together
+const DEFAULT_FLUSH_DELAY_MS = 1000;
+
+// updates in progress per file, see updateJsonFile
+const updates : { [filePath: string]: Promise<void> } = {};
+
+/**
+ * Reads a JSON file
+ *
+ * @param {string} filePath
+ * @param {Logger} log
+ * @returns {Promise} A promise resolving to the parsed data, or to null if there is no file yet or it
+ * can't be parsed. A file that can't be parsed is kept as <file>.corrupt, so the next write doesn't replace it.
+ */
+export function readJsonFile(filePath: string, log: Logger) : Promise<any> {
+  return fs.readFile(filePath).then((buffer) => {
+    try {
+      return JSON.parse(buffer);
+    } catch (err) {
+      log.error(filePath, "can't be parsed, starting empty and keeping it as", filePath+'.corrupt', err);
+      return fs.rename(filePath, filePath+'.corrupt').then(() => null);
+    }
+  }, (err) => {
+    if (err.errno == -2) {
+      return null; // nothing written yet
+    }
+    return Promise.reject(err);
+  });
+}
+
+/**
+ * Writes a JSON file at once, through a temporary file, so a crash can't leave a broken file behind
+ *
+ * @param {string} filePath
+ * @param {any} data
+ * @param {number} indent For files meant to be read by people
+ * @returns {Promise}
+ */
+export function writeJsonFile(filePath: string, data: any, indent: number = 0) : Promise<void> {
+  // a name of its own, so writers of the same file don't rename each other's
+  const tmpPath = filePath+'.'+randomBytes(4).toString('hex')+'.tmp';
+  return fs.writeFile(tmpPath, JSON.stringify(data, null, indent)).then(() => {
+    return fs.rename(tmpPath, filePath);
+  }).catch((err) => {
+    return fs.unlink(tmpPath).catch(() => {}).then(() => Promise.reject(err));
+  });
+}
+
+/**
+ * Reads a JSON file, changes it and writes it back. The updates of a file are done one after
+ * the other, so none of them overwrites the changes of another.
+ *
+ * @param {string} filePath
+ * @param {function} change Changes the parsed data in place, may return a promise. Nothing is
+ * written if it throws or rejects
+ * @param {number} indent For files meant to be read by people
+ * @returns {Promise} A promise resolving to what change resolved to, once written
+ */
+export function updateJsonFile<T>(filePath: string, change: (data: any) => T | Promise<T>, indent: number = 0) : Promise<T> {
+  const key = path.resolve(filePath);
+  const update = (updates[key] || Promise.resolve()).then(() => {
+    return fs.readFile(filePath);
+  }).then((buffer) => {
+    const data = JSON.parse(buffer);
+    return Promise.resolve(change(data)).then((result) => {
+      return writeJsonFile(filePath, data, indent).then(() => result);
+    });
+  });
+  const settled = update.then(() => {}, () => {});
+  updates[key] = settled;
+  settled.then(() => {
+    if (updates[key] === settled) {
+      delete updates[key];
+    }
+  });
+  return update;
+}
+
+export interface JsonFileOptions {
+  // how long to wait for more changes before writing
+  delayMs?: number;
+  // for files meant to be read by people
+  indent?: number;
+}
+
+/**
+ * Writes data to a JSON file. Changes are batched, writes never overlap, and each goes to a
+ * temporary file first, so a crash can't leave a broken file behind.
+ */
+export class JsonFileWriter {
+  private filePath: string;
+  private data: () => any;
+  private log: Logger;
+  private delayMs: number;
+  private indent: number;
+  private flushTimer: NodeJS.Timer = null;
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * @param {string} filePath
+   * @param {function} data Returns what to write
+   * @param {Logger} log
+   * @param {JsonFileOptions} options
+   */
+  constructor(filePath: string, data: () => any, log: Logger, options: JsonFileOptions = {}) {
+    this.filePath = filePath;
+    this.data = data;
+    this.log = log;
+    this.delayMs = options.delayMs === undefined ? DEFAULT_FLUSH_DELAY_MS : options.delayMs;
+    this.indent = options.indent || 0;
+  }
+
+  /**
+   * Writes the data soon, together with the changes that follow
+   */
+  public schedule() {
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, this.delayMs);
+    }
+  }
+
+  /**
+   * Writes the data now, after the write in progress if there is one
+   *
+   * @returns {Promise} Resolves once written, failures are only logged
+   */
+  public flush() : Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.lastWrite = this.lastWrite.then(() => {
+      return writeJsonFile(this.filePath, this.data(), this.indent);
+    }).catch((err) => {
+      this.log.error('failed to write', this.filePath, err);
+    });
+    return this.lastWrite;
+  }
+}
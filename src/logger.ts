@@ -0,0 +1,174 @@
+import { inspect } from 'util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+
+const LEVELS : LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const FORMATS : LogFormat[] = ['pretty', 'json'];
+
+// settings with a name like this are never logged, unless the level is debug
+const CREDENTIAL_KEY_REGEX = /pass|token|secret|cookie|key|authorization/i;
+// and neither are message bodies
+const BODY_KEYS = ['text', 'body', 'formatted_body', 'html'];
+const MAX_DEPTH = 6;
+
+/**
+ * Carried along with every line a logger writes
+ */
+export interface LogContext {
+  puppet?: string;
+  network?: string;
+  identityPair?: string;
+  matrixRoomId?: string;
+  thirdPartyRoomId?: string;
+  [key: string]: string;
+}
+
+export interface LoggingOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+}
+
+interface LoggingSettings {
+  level: LogLevel;
+  format: LogFormat;
+  write(line: string): void;
+}
+
+const settings : LoggingSettings = {
+  level: 'info',
+  format: 'pretty',
+  write: (line) => process.stderr.write(line+'\n')
+};
+
+/**
+ * Sets the level and format of all loggers. Unset options are taken from the
+ * MATRIX_PUPPET_LOG_LEVEL and MATRIX_PUPPET_LOG_FORMAT environment variables.
+ */
+export function configureLogging(options: LoggingOptions = {}, env: { [name: string]: string } = process.env) {
+  const level = options.level || env.MATRIX_PUPPET_LOG_LEVEL;
+  const format = options.format || env.MATRIX_PUPPET_LOG_FORMAT;
+  if (level && LEVELS.indexOf(<LogLevel>level) !== -1) {
+    settings.level = <LogLevel>level;
+  }
+  if (format && FORMATS.indexOf(<LogFormat>format) !== -1) {
+    settings.format = <LogFormat>format;
+  }
+}
+
+const redact = (value: any, depth = 0) : any => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Buffer.isBuffer(value)) {
+    return '[buffer of '+value.length+' bytes]';
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(v => redact(v, depth + 1));
+  }
+  let redacted = {};
+  for (let key of Object.keys(value)) {
+    const v = value[key];
+    if (typeof v === 'string' && CREDENTIAL_KEY_REGEX.test(key)) {
+      redacted[key] = '[redacted]';
+    } else if (typeof v === 'string' && BODY_KEYS.indexOf(key) !== -1) {
+      redacted[key] = '[redacted, '+v.length+' chars]';
+    } else {
+      redacted[key] = redact(v, depth + 1);
+    }
+  }
+  return redacted;
+};
+
+// keeps Error objects intact for inspect, so the stack is shown
+const prepare = (value: any) => {
+  if (settings.level === 'debug' || value instanceof Error) {
+    return value;
+  }
+  return redact(value);
+};
+
+/**
+ * Writes log lines, either as JSON or as text, tagged with a context such as
+ * the network and identity pair they belong to
+ */
+export class Logger {
+  private context: LogContext;
+
+  constructor(context: LogContext = {}) {
+    this.context = context;
+  }
+
+  /**
+   * A logger with additional context, e.g. the room being handled
+   */
+  public child(context: LogContext) : Logger {
+    let merged : LogContext = { ...this.context };
+    for (let key of Object.keys(context)) {
+      if (context[key] !== undefined && context[key] !== null) {
+        merged[key] = context[key];
+      }
+    }
+    return new Logger(merged);
+  }
+
+  public isEnabled(level: LogLevel) : boolean {
+    return LEVELS.indexOf(level) >= LEVELS.indexOf(settings.level);
+  }
+
+  public debug(...args) {
+    this.log('debug', args);
+  }
+
+  public info(...args) {
+    this.log('info', args);
+  }
+
+  public warn(...args) {
+    this.log('warn', args);
+  }
+
+  public error(...args) {
+    this.log('error', args);
+  }
+
+  private log(level: LogLevel, args: any[]) {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const msg = typeof args[0] === 'string' ? args.shift() : '';
+    const data = args.map(prepare);
+    if (settings.format === 'json') {
+      let line = { time: new Date().toISOString(), level, msg, ...this.context };
+      if (data.length > 0) {
+        line['data'] = data.map(d => d instanceof Error ? redact(d) : d);
+      }
+      let json : string;
+      try {
+        json = JSON.stringify(line);
+      } catch (err) {
+        // e.g. circular structures, which are only logged unredacted at debug level
+        line['data'] = data.map(d => inspect(d, { depth: 2 }));
+        json = JSON.stringify(line);
+      }
+      settings.write(json);
+      return;
+    }
+    const context = Object.keys(this.context).map(k => k+'='+this.context[k]).join(' ');
+    const parts = [
+      new Date().toISOString(),
+      level.toUpperCase(),
+      context ? '['+context+']' : '',
+      msg
+    ].concat(data.map(d => typeof d === 'string' ? d : inspect(d, <any>{ depth: MAX_DEPTH, breakLength: Infinity })));
+    settings.write(parts.filter(p => p !== '').join(' '));
+  }
+}
+
+export const logger = new Logger();
@@ -29,12 +29,27 @@ export interface SendMessageParams {
   msgtype: string;
 }
 
+export interface SendEventResponse {
+  event_id: string;
+}
+
+// the parts of a MatrixEvent sendReceipt needs
+export interface ReceiptEvent {
+  getRoomId(): string;
+  getId(): string;
+}
+
+export interface JoinedMembersResponse {
+  joined: { [userId: string]: { display_name?: string, avatar_url?: string } };
+}
+
 export interface CreateRoomResponse {
   room_id: string;
 }
 
 export interface MatrixClient {
   startClient(): void;
+  stopClient(): void;
   on(name: string, any): void;
   credentials: Credentials;
   getRoomIdForAlias(alias: string): Promise<{room_id: string}>;
@@ -43,14 +58,24 @@ export interface MatrixClient {
   getRoom(roomId: string): MatrixRoom;
   mxcUrlToHttp(mxcUrl: string): string;
   uploadContent(data: Buffer, UploadOptions): Promise<UploadResponse>;
-  sendImageMessage(roomId: string, url: string, info: SendImageInfo, text: string) : Promise<void>;
-  sendMessage(roomId: string, SendMessageParams): Promise<void>;
+  sendImageMessage(roomId: string, url: string, info: SendImageInfo, text: string) : Promise<SendEventResponse>;
+  sendMessage(roomId: string, SendMessageParams, txnId?: string): Promise<SendEventResponse>;
+  redactEvent(roomId: string, eventId: string): Promise<SendEventResponse>;
+  sendEvent(roomId: string, eventType: string, content: any, txnId?: string): Promise<SendEventResponse>;
+  sendTyping(roomId: string, isTyping: boolean, timeoutMs: number): Promise<void>;
+  sendReceipt(event: ReceiptEvent, receiptType: string): Promise<void>;
   getAccountData(eventType: string): any;
   setAccountData(eventType: string, contents: any): Promise<void>;
   invite(roomId: string, userId: string): Promise<void>;
+  kick(roomId: string, userId: string, reason?: string): Promise<void>;
+  getJoinedRoomMembers(roomId: string): Promise<JoinedMembersResponse>;
   setRoomTag(roomId: string, tagName: string, metadata): Promise<void>;
   setPowerLevel(roomId: string, userId: string, powrLevel: number): Promise<void>;
   setRoomName(roomId: string, name: string): Promise<void>;
   sendStateEvent(roomId: string, eventType: string, content: any, stateKey: string): Promise<void>;
+  getStateEvent(roomId: string, eventType: string, stateKey: string): Promise<any>;
   createRoom(options: any): Promise<CreateRoomResponse>;
+  makeTxnId(): string;
+  getHomeserverUrl(): string;
+  getAccessToken(): string;
 }
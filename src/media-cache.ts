@@ -0,0 +1,322 @@
+import * as fs  from 'async-file';
+import * as http from 'http';
+import * as https from 'https';
+import { createHash, randomBytes } from 'crypto';
+import { parse as urlParse, resolve as urlResolve } from 'url';
+import * as path from 'path';
+import { MatrixClient } from './matrix-client';
+import { createUploader } from './utils';
+import { readJsonFile, writeJsonFile } from './json-file';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'media-cache' });
+
+const MAX_REDIRECTS = 5;
+// URLs of the least recently fetched media are forgotten beyond this, rotating signed URLs pile up
+const MAX_URLS = 5000;
+
+export interface MediaEntry {
+  contentUri: string;
+  type: string;
+  size: number;
+}
+
+export interface UrlEntry {
+  // sha256 of the content last fetched from the URL
+  hash: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+interface MediaCacheData {
+  // keyed by sha256 of the content
+  media: { [hash: string]: MediaEntry };
+  urls: { [url: string]: UrlEntry };
+}
+
+export interface CachedMedia extends MediaEntry {
+  // whether the content was downloaded, not just revalidated
+  downloaded: boolean;
+  // whether the content was uploaded, not found by its hash
+  uploaded: boolean;
+}
+
+export interface MediaOptions {
+  // file name for the upload
+  name: string;
+  // content type, taken from the download if not given
+  type?: string;
+}
+
+interface FetchResult {
+  statusCode: number;
+  headers: any;
+  buffer: Buffer;
+}
+
+/**
+ * What a download may take, so a stalled or huge one can't hold up a room queue or use up the memory
+ */
+export interface FetchLimits {
+  // how long the connection may be idle
+  timeoutMs?: number;
+  // the largest download accepted
+  maxBytes?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+// the default max_upload_size of synapse
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_STAGING_DIR = 'media_staging';
+
+export interface MediaCacheOptions extends FetchLimits {
+  // where media waits to be uploaded, e.g. the images in the message queue
+  stagingDir?: string;
+}
+
+const fetch = (url: string, headers: { [name: string]: string }, limits: FetchLimits, redirects = 0) : Promise<FetchResult> => {
+  return new Promise<FetchResult>((resolve, reject) => {
+    const options : any = { ...urlParse(url), headers };
+    if (options.protocol !== 'http:' && options.protocol !== 'https:') {
+      return reject(new Error('refusing to fetch '+url+', only http and https are supported'));
+    }
+    const tooLarge = () => new Error(url+' is larger than '+limits.maxBytes+' bytes');
+    const get = options.protocol === 'https:' ? https.get : http.get;
+    const req = get(options, (res) => {
+      if (res.statusCode >= 300 && res.statusCode < 400 && res.statusCode !== 304 && res.headers.location) {
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          return reject(new Error('too many redirects fetching '+url));
+        }
+        return resolve(fetch(urlResolve(url, <string>res.headers.location), headers, limits, redirects + 1));
+      }
+      if (parseInt(<string>res.headers['content-length'], 10) > limits.maxBytes) {
+        req.abort();
+        return reject(tooLarge());
+      }
+      let chunks : Buffer[] = [];
+      let received = 0;
+      res.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > limits.maxBytes) {
+          req.abort();
+          return reject(tooLarge());
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve({ statusCode: res.statusCode, headers: res.headers, buffer: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    });
+    req.setTimeout(limits.timeoutMs, () => {
+      req.abort();
+      reject(new Error('timed out fetching '+url));
+    });
+    req.on('error', reject);
+  });
+};
+
+const hashOf = (buffer: Buffer) : string => createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * Maps media, by the hash of its content, to the mxc:// URI it was uploaded to, so the same
+ * avatar or image is only uploaded once, for all ghosts and rooms. For the URLs media was
+ * downloaded from, the ETag and Last-Modified headers are kept, so it is only downloaded
+ * again when it changed.
+ */
+export class MediaCache {
+  private filePath: string;
+  private data: MediaCacheData = { media: {}, urls: {} };
+  private pendingWrite: Promise<void> = null;
+  private lastWrite: Promise<void> = Promise.resolve();
+  // uploads in progress by hash, e.g. the avatar of a contact joining many rooms at once
+  private uploading: { [hash: string]: Promise<MediaEntry> } = {};
+  private limits: FetchLimits;
+  private stagingDir: string;
+
+  constructor(filePath: string, options: MediaCacheOptions = {}) {
+    this.filePath = filePath;
+    this.limits = {
+      timeoutMs: options.timeoutMs || DEFAULT_TIMEOUT_MS,
+      maxBytes: options.maxBytes || DEFAULT_MAX_BYTES
+    };
+    this.stagingDir = options.stagingDir || DEFAULT_STAGING_DIR;
+  }
+
+  public load() : Promise<void> {
+    return readJsonFile(this.filePath, log).then((data) => {
+      this.data = data || { media: {}, urls: {} };
+    });
+  }
+
+  /**
+   * Uploads the media at a URL, unless it was uploaded before
+   *
+   * @param {MatrixClient} client Uploads it if needed
+   * @param {string} url
+   * @param {MediaOptions} options
+   * @returns {Promise} A promise resolving to the CachedMedia
+   */
+  public uploadUrl(client: MatrixClient, url: string, options: MediaOptions) : Promise<CachedMedia> {
+    const known = this.data.urls[url];
+    let headers : { [name: string]: string } = {};
+    if (known && this.data.media[known.hash]) {
+      if (known.etag) {
+        headers['If-None-Match'] = known.etag;
+      }
+      if (known.lastModified) {
+        headers['If-Modified-Since'] = known.lastModified;
+      }
+    }
+    return fetch(url, headers, this.limits).then(({ statusCode, headers, buffer }) => {
+      if (statusCode === 304 && known && this.data.media[known.hash]) {
+        log.debug('not modified', url);
+        known.fetchedAt = Date.now();
+        this.persist();
+        return { ...this.data.media[known.hash], downloaded: false, uploaded: false };
+      }
+      if (statusCode < 200 || statusCode >= 300) {
+        throw new Error('HTTP '+statusCode+' fetching '+url);
+      }
+      const type = options.type || (<string>headers['content-type'] || '').split(';')[0] || undefined;
+      return this.upload(client, buffer, { ...options, type }).then((media) => {
+        this.data.urls[url] = {
+          hash: hashOf(buffer),
+          etag: <string>headers['etag'],
+          lastModified: <string>headers['last-modified'],
+          fetchedAt: Date.now()
+        };
+        this.pruneUrls();
+        this.persist();
+        return { ...media, downloaded: true };
+      });
+    });
+  }
+
+  /**
+   * Uploads media, unless the same content was uploaded before
+   *
+   * @param {MatrixClient} client Uploads it if needed
+   * @param {Buffer} buffer
+   * @param {MediaOptions} options
+   * @returns {Promise} A promise resolving to the CachedMedia
+   */
+  public uploadBuffer(client: MatrixClient, buffer: Buffer, options: MediaOptions) : Promise<CachedMedia> {
+    return this.upload(client, buffer, options).then((media) => {
+      return { ...media, downloaded: false };
+    });
+  }
+
+  /**
+   * Keeps media on disk until it is uploaded with uploadStaged, so that a queue can refer
+   * to it by its hash instead of carrying the content
+   *
+   * @param {Buffer} buffer
+   * @returns {Promise} A promise resolving to the hash of the media
+   */
+  public stage(buffer: Buffer) : Promise<string> {
+    const hash = hashOf(buffer);
+    if (this.data.media[hash]) {
+      return Promise.resolve(hash); // uploaded before, nothing to keep
+    }
+    const tmpPath = this.stagedPath(hash)+'.'+randomBytes(4).toString('hex')+'.tmp';
+    return fs.mkdirp(this.stagingDir).then(() => {
+      return fs.writeFile(tmpPath, buffer);
+    }).then(() => {
+      return fs.rename(tmpPath, this.stagedPath(hash));
+    }).then(() => {
+      return hash;
+    });
+  }
+
+  /**
+   * Uploads staged media, unless the same content was uploaded before. It stays staged until discardStaged.
+   *
+   * @param {MatrixClient} client Uploads it if needed
+   * @param {string} hash As returned by stage
+   * @param {MediaOptions} options
+   * @returns {Promise} A promise resolving to the CachedMedia
+   */
+  public uploadStaged(client: MatrixClient, hash: string, options: MediaOptions) : Promise<CachedMedia> {
+    if (this.data.media[hash]) {
+      return Promise.resolve({ ...this.data.media[hash], downloaded: false, uploaded: false });
+    }
+    return fs.readFile(this.stagedPath(hash)).then((buffer) => {
+      return this.uploadBuffer(client, buffer, options);
+    });
+  }
+
+  /**
+   * Removes staged media once it was uploaded, or won't be
+   *
+   * @param {string} hash As returned by stage
+   * @returns {Promise}
+   */
+  public discardStaged(hash: string) : Promise<void> {
+    return fs.unlink(this.stagedPath(hash)).catch((err) => {
+      if (err.errno != -2) {
+        log.warn('failed to remove staged media', hash, err);
+      }
+    });
+  }
+
+  private stagedPath(hash: string) : string {
+    return path.join(this.stagingDir, hash);
+  }
+
+  private upload(client: MatrixClient, buffer: Buffer, options: MediaOptions) : Promise<CachedMedia> {
+    const hash = hashOf(buffer);
+    if (this.data.media[hash]) {
+      log.debug('found by hash', hash, this.data.media[hash].contentUri);
+      return Promise.resolve({ ...this.data.media[hash], downloaded: false, uploaded: false });
+    }
+    if (this.uploading[hash]) {
+      return this.uploading[hash].then(media => ({ ...media, downloaded: false, uploaded: false }));
+    }
+    const uploading = this.uploading[hash] = createUploader(client, options.name, options.type).upload(buffer).then(({ content_uri, size }) => {
+      const media : MediaEntry = { contentUri: <string>content_uri, type: options.type, size };
+      this.data.media[hash] = media;
+      this.persist();
+      return media;
+    });
+    const done = () => { delete this.uploading[hash]; };
+    uploading.then(done, done);
+    return uploading.then(media => ({ ...media, downloaded: false, uploaded: true }));
+  }
+
+  private pruneUrls() {
+    const urls = Object.keys(this.data.urls);
+    if (urls.length <= MAX_URLS) {
+      return;
+    }
+    urls.sort((a, b) => this.data.urls[a].fetchedAt - this.data.urls[b].fetchedAt);
+    for (let url of urls.slice(0, urls.length - MAX_URLS)) {
+      delete this.data.urls[url];
+    }
+  }
+
+  /**
+   * Resolves once the changes so far are on disk
+   */
+  public flush() : Promise<void> {
+    return this.lastWrite;
+  }
+
+  /**
+   * Writes the cache to disk. Changes made while a write is pending are part of it.
+   */
+  private persist() : Promise<void> {
+    if (!this.pendingWrite) {
+      this.pendingWrite = this.lastWrite.then(() => {
+        this.pendingWrite = null;
+        return writeJsonFile(this.filePath, this.data);
+      });
+      this.lastWrite = this.pendingWrite.catch((err) => {
+        log.error('failed to write the media cache', err);
+      });
+    }
+    return this.lastWrite;
+  }
+}
+
+export const mediaCache = new MediaCache('media_cache.json');
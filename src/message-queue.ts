@@ -0,0 +1,272 @@
+import * as fs  from 'async-file';
+import { randomBytes } from 'crypto';
+import { readJsonFile } from './json-file';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'message-queue' });
+
+export type QueueDirection = 'to_matrix' | 'to_remote';
+
+export interface QueueItem {
+  id: string;
+  // who handles the item, e.g. 'skype/soru'
+  owner: string;
+  direction: QueueDirection;
+  // the (encoded) third party room ID, items of one room are handled in order
+  room: string;
+  // what the item is, e.g. 'message' or 'redaction', up to the owner
+  kind: string;
+  // JSON serializable, it is written to disk
+  payload: any;
+  enqueuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * Handles an item, a rejection means it is retried
+ */
+export type QueueHandler = (item: QueueItem) => Promise<void>;
+
+/**
+ * Called when an item failed too often and is dropped
+ */
+export type QueueFailureHandler = (item: QueueItem, err: any) => void;
+
+export interface QueueOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_OPTIONS : QueueOptions = {
+  maxAttempts: 10,
+  initialDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000
+};
+
+interface Registration {
+  handler: QueueHandler;
+  onFailed: QueueFailureHandler;
+}
+
+interface Waiter {
+  resolve(): void;
+  reject(err: any): void;
+}
+
+/**
+ * Per room FIFO queues of messages to bridge, in both directions. The queues are
+ * persisted, so pending items survive a restart. Failed items are retried with
+ * backoff and hold up the rest of their queue, so that order is kept.
+ */
+export class MessageQueue {
+  private filePath: string;
+  private options: QueueOptions;
+  private queues: { [key: string]: QueueItem[] } = {};
+  private registrations: { [owner: string]: Registration } = {};
+  private active: { [key: string]: boolean } = {};
+  private timers: { [key: string]: NodeJS.Timer } = {};
+  // owner|direction pairs whose items wait, e.g. while the third party network is unreachable
+  private paused: { [ownerDirection: string]: boolean } = {};
+  // callers waiting for their item, not persisted
+  private waiters: { [id: string]: Waiter } = {};
+  private pendingWrite: Promise<void> = null;
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, options: QueueOptions = DEFAULT_OPTIONS) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  public load() : Promise<void> {
+    return readJsonFile(this.filePath, log).then((queues) => {
+      this.queues = queues || {};
+      const pending = Object.keys(this.queues).reduce((n, key) => n + this.queues[key].length, 0);
+      if (pending > 0) {
+        log.info('restored', pending, 'pending items');
+      }
+    });
+  }
+
+  /**
+   * Starts handling the items of an owner, including the ones restored from disk
+   *
+   * @param {string} owner
+   * @param {function} handler Handles an item, rejects to retry it later
+   * @param {function} onFailed Called when an item is dropped after failing too often
+   */
+  public register(owner: string, handler: QueueHandler, onFailed: QueueFailureHandler) {
+    this.registrations[owner] = { handler, onFailed };
+    for (let key of Object.keys(this.queues)) {
+      if (this.queues[key].length > 0 && this.queues[key][0].owner === owner) {
+        this.drain(key);
+      }
+    }
+  }
+
+  /**
+   * Stops handling the items of an owner, they stay queued
+   */
+  public unregister(owner: string) {
+    delete this.registrations[owner];
+    for (let ownerDirection of Object.keys(this.paused)) {
+      if (ownerDirection.indexOf(owner+'|') === 0) {
+        delete this.paused[ownerDirection];
+      }
+    }
+    for (let key of Object.keys(this.timers)) {
+      if (this.queues[key] && this.queues[key].length > 0 && this.queues[key][0].owner === owner) {
+        clearTimeout(this.timers[key]);
+        delete this.timers[key];
+      }
+    }
+  }
+
+  /**
+   * Holds back the items of an owner in one direction, the item in progress is still finished
+   */
+  public pause(owner: string, direction: QueueDirection) {
+    this.paused[owner+'|'+direction] = true;
+  }
+
+  /**
+   * Continues with the items held back by pause
+   */
+  public resume(owner: string, direction: QueueDirection) {
+    if (!this.paused[owner+'|'+direction]) {
+      return;
+    }
+    delete this.paused[owner+'|'+direction];
+    for (let key of Object.keys(this.queues)) {
+      if (key.indexOf(owner+'|'+direction+'|') === 0) {
+        this.drain(key);
+      }
+    }
+  }
+
+  /**
+   * Resolves once all changes are on disk
+   */
+  public flush() : Promise<void> {
+    return this.persist();
+  }
+
+  /**
+   * Appends an item to the queue of its room
+   *
+   * @returns {Promise} Resolves once the item was handled, rejects if it was dropped
+   */
+  public push(owner: string, direction: QueueDirection, room: string, kind: string, payload: any) : Promise<void> {
+    const item : QueueItem = {
+      id: randomBytes(8).toString('hex'),
+      owner, direction, room, kind, payload,
+      enqueuedAt: Date.now(),
+      attempts: 0
+    };
+    const key = this.key(item);
+    if (!this.queues[key]) {
+      this.queues[key] = [];
+    }
+    this.queues[key].push(item);
+    const done = new Promise<void>((resolve, reject) => {
+      this.waiters[item.id] = { resolve, reject };
+    });
+    this.persist().then(() => {
+      this.drain(key);
+    });
+    return done;
+  }
+
+  private key(item: QueueItem) : string {
+    return item.owner+'|'+item.direction+'|'+item.room;
+  }
+
+  private drain(key: string) {
+    const queue = this.queues[key];
+    if (this.active[key] || this.timers[key] || !queue || queue.length === 0) {
+      return;
+    }
+    const item = queue[0];
+    const registration = this.registrations[item.owner];
+    if (!registration || this.paused[item.owner+'|'+item.direction]) {
+      return;
+    }
+    this.active[key] = true;
+    Promise.resolve().then(() => registration.handler(item)).then(() => {
+      this.finish(key, item);
+      this.settle(item);
+    }, (err) => {
+      item.attempts++;
+      item.lastError = err && err.message ? err.message : String(err);
+      if (item.attempts >= this.options.maxAttempts) {
+        log.error('giving up on', item.kind, 'after', item.attempts, 'attempts', { owner: item.owner, room: item.room }, err);
+        this.finish(key, item);
+        this.settle(item, err);
+        try {
+          registration.onFailed(item, err);
+        } catch (handlerErr) {
+          log.warn('failure handler failed', handlerErr);
+        }
+        return;
+      }
+      const delay = Math.min(this.options.initialDelayMs * Math.pow(2, item.attempts - 1), this.options.maxDelayMs);
+      log.warn('failed to handle', item.kind, 'retrying in', delay, 'ms', { owner: item.owner, room: item.room }, err);
+      this.active[key] = false;
+      this.persist();
+      this.timers[key] = setTimeout(() => {
+        delete this.timers[key];
+        this.drain(key);
+      }, delay);
+    });
+  }
+
+  // removes the handled item at the head of the queue, and moves on to the next one
+  private finish(key: string, item: QueueItem) {
+    const queue = this.queues[key];
+    if (queue && queue[0] === item) {
+      queue.shift();
+    }
+    if (queue && queue.length === 0) {
+      delete this.queues[key];
+    }
+    this.active[key] = false;
+    this.persist();
+    this.drain(key);
+  }
+
+  private settle(item: QueueItem, err?: any) {
+    const waiter = this.waiters[item.id];
+    if (!waiter) {
+      return;
+    }
+    delete this.waiters[item.id];
+    if (err) {
+      waiter.reject(err);
+    } else {
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Writes the queues to disk. Changes made while a write is pending are part of it.
+   */
+  private persist() : Promise<void> {
+    if (!this.pendingWrite) {
+      this.pendingWrite = this.lastWrite.then(() => {
+        this.pendingWrite = null;
+        // write to a temporary file first, so a crash can't leave us with half a queue
+        const tmpPath = this.filePath+'.tmp';
+        return fs.writeFile(tmpPath, JSON.stringify(this.queues)).then(() => {
+          return fs.rename(tmpPath, this.filePath);
+        });
+      });
+      this.lastWrite = this.pendingWrite.catch((err) => {
+        log.error('failed to write the message queue', err);
+      });
+    }
+    return this.lastWrite;
+  }
+}
+
+export const messageQueue = new MessageQueue('message_queue.json');
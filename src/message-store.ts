@@ -0,0 +1,101 @@
+import { JsonFileWriter, JsonFileOptions, readJsonFile } from './json-file';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'message-store' });
+
+// older messages of a room are dropped, they are unlikely to be edited or reacted to anymore
+const MAX_MESSAGES_PER_ROOM = 1000;
+
+export interface StoredMessage {
+  // event ID of the message on matrix
+  matrixEventId: string;
+  // message ID on the third party network
+  remoteId: string;
+  // matrix user ID who sent the event, a ghost or the puppet
+  sender: string;
+  // for reactions: the third party message ID reacted to, and the reaction
+  reactionTo?: string;
+  reactionKey?: string;
+}
+
+/**
+ * Maps matrix event IDs to third party message IDs and back, keyed by
+ * network, identity pair and (encoded) third party room ID
+ */
+export class MessageStore {
+  private filePath: string;
+  private cache: { [room: string]: StoredMessage[] } = {};
+  private writer: JsonFileWriter;
+  constructor(filePath: string, options: JsonFileOptions = {}) {
+    this.filePath = filePath;
+    this.writer = new JsonFileWriter(filePath, () => this.cache, log, options);
+  }
+  public load() : Promise<void> {
+    return readJsonFile(this.filePath, log).then((cache) => {
+      this.cache = cache || {};
+    });
+  }
+  /**
+   * Resolves once all changes are on disk
+   */
+  public flush() : Promise<void> {
+    return this.writer.flush();
+  }
+  private writeCache() : Promise<void> {
+    this.writer.schedule();
+    return Promise.resolve();
+  }
+  private key(network: string, identityPairId: string, roomId: string) : string {
+    return network+'/'+identityPairId+'/'+roomId;
+  }
+  private find(network: string, identityPairId: string, roomId: string, prop: string, id: string) : Promise<StoredMessage> {
+    const messages = this.cache[this.key(network, identityPairId, roomId)] || [];
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i][prop] === id) {
+        return Promise.resolve(messages[i]);
+      }
+    }
+    return Promise.resolve(null);
+  }
+  public add(network: string, identityPairId: string, roomId: string, message: StoredMessage) : Promise<void> {
+    if (!message.matrixEventId || !(message.remoteId || message.reactionTo)) {
+      return Promise.resolve();
+    }
+    const key = this.key(network, identityPairId, roomId);
+    if (!this.cache[key]) {
+      this.cache[key] = [];
+    }
+    this.cache[key].push(message);
+    if (this.cache[key].length > MAX_MESSAGES_PER_ROOM) {
+      this.cache[key].splice(0, this.cache[key].length - MAX_MESSAGES_PER_ROOM);
+    }
+    return this.writeCache();
+  }
+  public getByMatrixEventId(network: string, identityPairId: string, roomId: string, matrixEventId: string) : Promise<StoredMessage> {
+    return this.find(network, identityPairId, roomId, 'matrixEventId', matrixEventId);
+  }
+  public getByRemoteId(network: string, identityPairId: string, roomId: string, remoteId: string) : Promise<StoredMessage> {
+    return this.find(network, identityPairId, roomId, 'remoteId', remoteId);
+  }
+  public getReaction(network: string, identityPairId: string, roomId: string, reactionTo: string, sender: string, reactionKey: string) : Promise<StoredMessage> {
+    const messages = this.cache[this.key(network, identityPairId, roomId)] || [];
+    for (let m of messages) {
+      if (m.reactionTo === reactionTo && m.sender === sender && m.reactionKey === reactionKey) {
+        return Promise.resolve(m);
+      }
+    }
+    return Promise.resolve(null);
+  }
+  public removeByMatrixEventId(network: string, identityPairId: string, roomId: string, matrixEventId: string) : Promise<void> {
+    const key = this.key(network, identityPairId, roomId);
+    const messages = this.cache[key] || [];
+    const remaining = messages.filter(m => m.matrixEventId !== matrixEventId);
+    if (remaining.length === messages.length) {
+      return Promise.resolve();
+    }
+    this.cache[key] = remaining;
+    return this.writeCache();
+  }
+}
+
+export const messageStore = new MessageStore('message_store.json');
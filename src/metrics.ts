@@ -0,0 +1,170 @@
+import { Bridge } from 'matrix-appservice-bridge';
+import { hasBearerToken } from './http-auth';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'metrics' });
+
+const PREFIX = 'matrix_puppet_';
+
+export type Labels = { [name: string]: string };
+
+// seconds, for the latency of bridged messages
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabelValue = (value: string) : string => {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+};
+
+const labelsKey = (labels: Labels) : string => {
+  return Object.keys(labels).sort().map(k => k+'="'+escapeLabelValue(labels[k])+'"').join(',');
+};
+
+const formatLabels = (key: string, extra?: string) : string => {
+  const all = [key, extra].filter(s => !!s).join(',');
+  return all ? '{'+all+'}' : '';
+};
+
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * A value that only goes up, e.g. the number of messages bridged
+ */
+export class Counter implements Metric {
+  private name: string;
+  private help: string;
+  private values: { [labels: string]: number } = {};
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  public inc(labels: Labels = {}, value = 1) {
+    const key = labelsKey(labels);
+    this.values[key] = (this.values[key] || 0) + value;
+  }
+
+  public render() : string[] {
+    let lines = [
+      '# HELP '+this.name+' '+this.help,
+      '# TYPE '+this.name+' counter'
+    ];
+    for (let key of Object.keys(this.values)) {
+      lines.push(this.name+formatLabels(key)+' '+this.values[key]);
+    }
+    return lines;
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Counts observations in buckets, e.g. how long it took to bridge a message
+ */
+export class Histogram implements Metric {
+  private name: string;
+  private help: string;
+  private bounds: number[];
+  private values: { [labels: string]: HistogramValue } = {};
+
+  constructor(name: string, help: string, bounds: number[] = DEFAULT_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.bounds = bounds.slice().sort((a, b) => a - b);
+  }
+
+  public observe(labels: Labels, value: number) {
+    const key = labelsKey(labels);
+    if (!this.values[key]) {
+      this.values[key] = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    }
+    const v = this.values[key];
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        v.buckets[i]++;
+      }
+    });
+    v.sum += value;
+    v.count++;
+  }
+
+  public render() : string[] {
+    let lines = [
+      '# HELP '+this.name+' '+this.help,
+      '# TYPE '+this.name+' histogram'
+    ];
+    for (let key of Object.keys(this.values)) {
+      const v = this.values[key];
+      this.bounds.forEach((bound, i) => {
+        lines.push(this.name+'_bucket'+formatLabels(key, 'le="'+bound+'"')+' '+v.buckets[i]);
+      });
+      lines.push(this.name+'_bucket'+formatLabels(key, 'le="+Inf"')+' '+v.count);
+      lines.push(this.name+'_sum'+formatLabels(key)+' '+v.sum);
+      lines.push(this.name+'_count'+formatLabels(key)+' '+v.count);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds all metrics, and renders them in the Prometheus text format
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  public counter(name: string, help: string) : Counter {
+    const counter = new Counter(PREFIX+name, help);
+    this.metrics.push(counter);
+    return counter;
+  }
+
+  public histogram(name: string, help: string, bounds?: number[]) : Histogram {
+    const histogram = new Histogram(PREFIX+name, help, bounds);
+    this.metrics.push(histogram);
+    return histogram;
+  }
+
+  public render() : string {
+    return this.metrics.map(m => m.render().join('\n')).join('\n\n')+'\n';
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+// all of them are labeled by network and identity_pair
+export const messagesBridged = registry.counter('messages_bridged_total', 'Messages bridged, by direction (to_matrix or to_remote)');
+export const messagesDropped = registry.counter('messages_dropped_total', 'Messages given up on after all their retries, by direction (to_matrix or to_remote)');
+export const sendFailures = registry.counter('send_failures_total', 'Failed attempts at bridging a message or other room event, by direction (to_matrix or to_remote)');
+export const roomsCreated = registry.counter('rooms_created_total', 'Matrix rooms created for third party rooms');
+export const ghostProfileUpdates = registry.counter('ghost_profile_updates_total', 'Display name and avatar updates of ghosts, by field (name or avatar)');
+export const avatarDownloads = registry.counter('avatar_downloads_total', 'Avatars downloaded from the third party network');
+export const avatarUploads = registry.counter('avatar_uploads_total', 'Avatars uploaded to the matrix media repository');
+export const adapterReconnects = registry.counter('adapter_reconnects_total', 'Connection attempts of an adapter after its first one');
+export const messageLatency = registry.histogram('message_latency_seconds', 'Time from receiving a third party message to sending it to matrix');
+
+/**
+ * Serves the metrics at /metrics on the HTTP listener of the bridge, it has to be running already
+ *
+ * @param {Bridge} bridge
+ * @param {string} sharedSecret Requests must send it as bearer token
+ */
+export function registerMetricsEndpoint(bridge: Bridge, sharedSecret: string) {
+  bridge.addAppServicePath({
+    method: 'GET',
+    path: '/metrics',
+    handler: (req, res) => {
+      if (!hasBearerToken(req, sharedSecret)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      res.set('Content-Type', 'text/plain; version=0.0.4');
+      res.status(200).send(registry.render());
+    }
+  });
+  log.info('metrics available at /metrics');
+}
@@ -0,0 +1,58 @@
+import { updateJsonFile } from './json-file';
+import { secretStore, isSecretReference, SecretReference } from './secrets';
+
+// thirdParty settings with a name like this are considered secrets
+const SECRET_KEY_REGEX = /pass|token|secret|cookie|key/i;
+
+/**
+ * Moves the plaintext passwords and tokens of a raw config into the (open) secrets store,
+ * replacing them with {"$secret": "name"} references
+ *
+ * @param {object} config The raw config, it is modified in place
+ * @returns {Promise} A promise resolving to the names of the moved secrets
+ */
+export async function extractSecrets(config: any) : Promise<string[]> {
+  let migrated : string[] = [];
+  const migrate = async (parent: any, key: string, name: string) => {
+    const value = parent[key];
+    if (typeof value !== 'string' || isSecretReference(value)) {
+      return;
+    }
+    await secretStore.set(name, value);
+    parent[key] = <SecretReference>{ $secret: name };
+    migrated.push(name);
+  };
+
+  for (let localpart in config.users || {}) {
+    await migrate(config.users[localpart], 'password', 'users.'+localpart+'.password');
+    await migrate(config.users[localpart], 'token', 'users.'+localpart+'.token');
+  }
+  for (let network in config.networks || {}) {
+    const identityPairs = config.networks[network].identityPairs || {};
+    for (let id in identityPairs) {
+      const thirdParty = identityPairs[id].thirdParty || {};
+      for (let key in thirdParty) {
+        if (SECRET_KEY_REGEX.test(key)) {
+          await migrate(thirdParty, key, 'networks.'+network+'.'+id+'.'+key);
+        }
+      }
+    }
+  }
+
+  return migrated;
+}
+
+/**
+ * Moves the plaintext passwords and tokens of the config file into the secrets store
+ *
+ * @returns {Promise} A promise resolving to the names of the migrated secrets
+ */
+export async function migrateSecrets(jsonFile: string) : Promise<string[]> {
+  return updateJsonFile(jsonFile, async (config: any) => {
+    if (!config.secrets) {
+      throw new Error('Configure a secrets store in '+jsonFile+' first, e.g. "secrets": { "store": "secrets.json.enc" }');
+    }
+    await secretStore.open(config.secrets);
+    return extractSecrets(config);
+  }, 2);
+}
@@ -0,0 +1,242 @@
+import * as fs  from 'async-file';
+import { Bridge } from 'matrix-appservice-bridge';
+
+import { Base } from './base';
+import { Puppet } from './puppet';
+import { validateConfig } from './config-loader';
+import { hasBearerToken } from './http-auth';
+import { extractSecrets } from './migrate-secrets';
+import { secretStore } from './secrets';
+import { updateJsonFile } from './json-file';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'provisioning' });
+
+const PREFIX = '/_matrix/provision/v1';
+
+/**
+ * What the provisioning API needs from the running app
+ */
+export interface ProvisioningHost {
+  getPuppet(localpart: string): Puppet;
+  getBase(network: string, identityPairId: string): Base;
+  // applies the config file to the running puppets and bases
+  reload(): Promise<ReloadResult>;
+}
+
+export interface ReloadResult {
+  // the puppets and identity pairs added, removed and restarted
+  changes: string[];
+  // changed settings which only take effect after a restart, e.g. 'homeserver'
+  skipped: string[];
+}
+
+class HttpError extends Error {
+  public status: number;
+  public details: any;
+  constructor(status: number, message: string, details?: any) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+type Handler = (req: any) => Promise<any>;
+
+/**
+ * REST API to manage the users and identity pairs of the config file. Changes are
+ * written back to the config file and applied live. Requests must be authenticated
+ * with the shared secret of the provisioning config, as 'Authorization: Bearer <secret>'.
+ */
+export class ProvisioningApi {
+  private bridge: Bridge;
+  private host: ProvisioningHost;
+  private configPath: string;
+  private sharedSecret: string;
+
+  constructor(bridge: Bridge, host: ProvisioningHost, configPath: string, sharedSecret: string) {
+    this.bridge = bridge;
+    this.host = host;
+    this.configPath = configPath;
+    this.sharedSecret = sharedSecret;
+  }
+
+  /**
+   * Adds the routes to the HTTP listener of the bridge, it has to be running already
+   */
+  public register() {
+    this.route('GET', '/users', () => this.listUsers());
+    this.route('PUT', '/users/:localpart', (req) => this.putUser(req.params.localpart, req.body));
+    this.route('DELETE', '/users/:localpart', (req) => this.deleteUser(req.params.localpart));
+    this.route('GET', '/identityPairs', () => this.listIdentityPairs());
+    this.route('GET', '/networks/:network/identityPairs', (req) => this.listIdentityPairs(req.params.network));
+    this.route('GET', '/networks/:network/identityPairs/:id', (req) => this.getIdentityPair(req.params.network, req.params.id));
+    this.route('PUT', '/networks/:network/identityPairs/:id', (req) => this.putIdentityPair(req.params.network, req.params.id, req.body));
+    this.route('DELETE', '/networks/:network/identityPairs/:id', (req) => this.deleteIdentityPair(req.params.network, req.params.id));
+    this.route('POST', '/networks/:network/identityPairs/:id/reconnect', (req) => this.reconnect(req.params.network, req.params.id));
+    log.info('provisioning API listening on', PREFIX);
+  }
+
+  private route(method: string, path: string, handler: Handler) {
+    this.bridge.addAppServicePath({
+      method,
+      path: PREFIX+path,
+      handler: (req, res) => {
+        if (!hasBearerToken(req, this.sharedSecret)) {
+          return res.status(401).json({ error: 'Unauthorized' });
+        }
+        Promise.resolve().then(() => handler(req)).then((body) => {
+          res.status(200).json(body || {});
+        }).catch((err) => {
+          if (err instanceof HttpError) {
+            return res.status(err.status).json({ error: err.message, details: err.details });
+          }
+          log.warn('provisioning request failed', err);
+          res.status(500).json({ error: err.message });
+        });
+      }
+    });
+  }
+
+  private readConfig() : Promise<any> {
+    return fs.readFile(this.configPath).then((buffer) => JSON.parse(buffer));
+  }
+
+  /**
+   * Modifies the config file, validates it, writes it back and applies it. If there
+   * is a secrets store, new passwords and tokens are moved there.
+   *
+   * @param {function} change Modifies the raw config in place
+   * @returns {Promise} A promise resolving to the ReloadResult
+   */
+  private updateConfig(change: (config: any) => void) : Promise<ReloadResult> {
+    // one change after the other, together with the other writers of the config file
+    return updateJsonFile(this.configPath, (config) => {
+      change(config);
+      const problems = validateConfig(JSON.parse(JSON.stringify(config)), process.env);
+      if (problems.length > 0) {
+        throw new HttpError(400, 'Invalid config', problems);
+      }
+      return config.secrets && secretStore.isOpen() ? extractSecrets(config) : Promise.resolve([]);
+    }, 2).then(() => {
+      return this.host.reload();
+    });
+  }
+
+  private describeIdentityPair(network: string, id: string, ident: any) {
+    const base = this.host.getBase(network, id);
+    return {
+      network,
+      id,
+      matrixPuppet: ident.matrixPuppet,
+      state: base ? base.getConnectionState() : 'stopped'
+    };
+  }
+
+  private listUsers() : Promise<any> {
+    return this.readConfig().then((config) => {
+      return {
+        users: Object.keys(config.users || {}).map((localpart) => {
+          const puppet = this.host.getPuppet(localpart);
+          return {
+            localpart,
+            syncState: puppet ? puppet.getSyncState() : null
+          };
+        })
+      };
+    });
+  }
+
+  private putUser(localpart: string, body: any) : Promise<any> {
+    if (!body || typeof body !== 'object') {
+      throw new HttpError(400, 'Expected a JSON object with a password or token');
+    }
+    return this.updateConfig((config) => {
+      config.users = config.users || {};
+      config.users[localpart] = {};
+      if (body.password !== undefined) {
+        config.users[localpart].password = body.password;
+      }
+      if (body.token !== undefined) {
+        config.users[localpart].token = body.token;
+      }
+    });
+  }
+
+  private deleteUser(localpart: string) : Promise<any> {
+    return this.updateConfig((config) => {
+      if (!config.users || !(localpart in config.users)) {
+        throw new HttpError(404, 'Unknown user '+localpart);
+      }
+      for (let network in config.networks || {}) {
+        for (let id in config.networks[network].identityPairs || {}) {
+          if (config.networks[network].identityPairs[id].matrixPuppet === localpart) {
+            throw new HttpError(409, 'Identity pair '+network+'/'+id+' still uses '+localpart);
+          }
+        }
+      }
+      delete config.users[localpart];
+    });
+  }
+
+  private listIdentityPairs(onlyNetwork?: string) : Promise<any> {
+    return this.readConfig().then((config) => {
+      let identityPairs = [];
+      for (let network in config.networks || {}) {
+        if (onlyNetwork && network !== onlyNetwork) {
+          continue;
+        }
+        const pairs = config.networks[network].identityPairs || {};
+        for (let id in pairs) {
+          identityPairs.push(this.describeIdentityPair(network, id, pairs[id]));
+        }
+      }
+      return { identityPairs };
+    });
+  }
+
+  private getIdentityPair(network: string, id: string) : Promise<any> {
+    return this.readConfig().then((config) => {
+      const networkConfig = (config.networks || {})[network];
+      if (!networkConfig || !networkConfig.identityPairs || !networkConfig.identityPairs[id]) {
+        throw new HttpError(404, 'Unknown identity pair '+network+'/'+id);
+      }
+      return this.describeIdentityPair(network, id, networkConfig.identityPairs[id]);
+    });
+  }
+
+  private putIdentityPair(network: string, id: string, body: any) : Promise<any> {
+    if (!body || typeof body !== 'object') {
+      throw new HttpError(400, 'Expected a JSON object with matrixPuppet and thirdParty');
+    }
+    return this.updateConfig((config) => {
+      config.networks = config.networks || {};
+      config.networks[network] = config.networks[network] || {};
+      config.networks[network].identityPairs = config.networks[network].identityPairs || {};
+      config.networks[network].identityPairs[id] = {
+        matrixPuppet: body.matrixPuppet,
+        thirdParty: body.thirdParty
+      };
+    });
+  }
+
+  private deleteIdentityPair(network: string, id: string) : Promise<any> {
+    return this.updateConfig((config) => {
+      const networkConfig = (config.networks || {})[network];
+      if (!networkConfig || !networkConfig.identityPairs || !networkConfig.identityPairs[id]) {
+        throw new HttpError(404, 'Unknown identity pair '+network+'/'+id);
+      }
+      delete networkConfig.identityPairs[id];
+    });
+  }
+
+  private reconnect(network: string, id: string) : Promise<any> {
+    const base = this.host.getBase(network, id);
+    if (!base) {
+      throw new HttpError(404, 'Unknown identity pair '+network+'/'+id);
+    }
+    return base.reconnect().then(() => {
+      return { state: base.getConnectionState() };
+    });
+  }
+}
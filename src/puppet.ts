@@ -3,13 +3,18 @@ const matrixSdk = require("matrix-js-sdk");
 
 import { MatrixClient } from './matrix-client';
 import { IdentityPair } from './identity-pair';
-import { Homeserver, User } from './config';
+import { Backfill, Homeserver, RoomSync, User } from './config';
 import { associateToken, TokenAssociationParams } from './associate-token';
+import { secretStore } from './secrets';
 import { Bridge } from 'matrix-appservice-bridge';
 import { Base } from './base'
+import { StatusConsole, StatusCommand } from './status-console';
+import { logger, Logger } from './logger';
 
-interface PuppetIdentity extends User {
+interface PuppetIdentity {
   localpart: string;
+  password?: string;
+  token?: string;
 }
 
 /**
@@ -24,17 +29,29 @@ export class Puppet {
   private homeserverUrl: string;
   private bases: Base[];
   private matrixRoomMembers: any;
+  private statusConsole: StatusConsole;
+  private syncState: string = null;
+  private jsonFile: string;
+  // set while logging in again after the access token was revoked
+  private relogin: Promise<void> = null;
+  // set while waiting for the password to be typed in the status room
+  private passwordPrompt: (password: string) => Promise<void> = null;
+  private tokenListener: (user: User) => void = null;
+  private log: Logger;
 
   /**
    * Constructs a Puppet
    */
   constructor(localpart: string, user: User, homeserver: Homeserver) {
+    this.log = logger.child({ puppet: localpart });
     this.identity = <PuppetIdentity>{
-      ...user,
+      ...secretStore.resolve(user),
       localpart
     };
     this.homeserver = homeserver;
     this.bases = [];
+    this.statusConsole = new StatusConsole();
+    this.registerBuiltinCommands();
   }
 
   /**
@@ -48,37 +65,68 @@ export class Puppet {
     if ( this.identity ) {
       this.userId = "@"+this.identity.localpart+":"+this.homeserver.domain;
     } else {
-      console.error('Invalid matrix identity specified');
+      this.log.error('Invalid matrix identity specified');
       process.exit(1);
     }
     // end load identity
 
     // load token
+    this.jsonFile = jsonFile;
     if (this.identity.token) {
       return this.login(this.identity.token);
     } else if (this.identity.password) {
-      let matrixClient = matrixSdk.createClient(this.homeserver.url);
-      return matrixClient.loginWithPassword(this.userId, this.identity.password).then(accessDat => {
-        if (jsonFile) {
-          return associateToken(<TokenAssociationParams>{
-            localpart: this.identity.localpart,
-            jsonFile,
-            token: accessDat.access_token
-          }).then(()=>{
-            return this.login(accessDat.access_token);
-          });
-        } else {
-          return this.login(accessDat.access_token);
-        }
+      return this.loginWithPassword(this.identity.password).then((token) => {
+        return this.saveToken(token);
+      }).then((token) => {
+        return this.login(token);
       });
     } else {
-      console.error(`Matrix puppet '${this.identity.localpart}' must have a 'token' or 'password' to login`);
+      this.log.error(`Matrix puppet '${this.identity.localpart}' must have a 'token' or 'password' to login`);
       process.exit(1);
     }
   }
 
+  /**
+   * Calls back with the updated user entry of the config whenever a new access token was saved
+   */
+  public onTokenAssociated(listener: (user: User) => void) {
+    this.tokenListener = listener;
+  }
+
+  /**
+   * @returns {Promise} A promise resolving to a new access token
+   */
+  private loginWithPassword(password: string) : Promise<string> {
+    let matrixClient = matrixSdk.createClient(this.homeserver.url);
+    return Promise.resolve(matrixClient.loginWithPassword(this.userId, password)).then((accessDat) => {
+      return accessDat.access_token;
+    });
+  }
+
+  /**
+   * Writes a new access token to the config file, if we have one
+   *
+   * @returns {Promise} A promise resolving to the token
+   */
+  private saveToken(token: string) : Promise<string> {
+    this.identity.token = token;
+    if (!this.jsonFile) {
+      return Promise.resolve(token);
+    }
+    return Promise.resolve(associateToken(<TokenAssociationParams>{
+      localpart: this.identity.localpart,
+      jsonFile: this.jsonFile,
+      token
+    })).then((user) => {
+      if (this.tokenListener) {
+        this.tokenListener(user);
+      }
+      return token;
+    });
+  }
+
   private login(token: string) : Promise<void> {
-    this.client = matrixSdk.createClient({
+    const client = this.client = matrixSdk.createClient({
       baseUrl: this.homeserver.url,
       userId: this.userId,
       accessToken: token
@@ -91,39 +139,315 @@ export class Puppet {
       });
 
       this.client.on("Room.receipt", (event, room) => {
+        const base = this.getBaseForMatrixRoom(room.roomId);
+        if (!base) {
+          return;
+        }
         let content = event.getContent();
         for (var eventId in content) {
-          for (var userId in content[eventId]['m.read']) {
-            if (userId === this.userId) {
-              for (let b of this.bases) {
-                return b.sendReadReceipt(room.roomId);
-              }
-            }
+          const readers = content[eventId]['m.read'] || {};
+          if (this.userId in readers) {
+            base.sendReadReceipt(room.roomId, eventId).catch((err) => {
+              this.log.child({ matrixRoomId: room.roomId }).error('Failed to send read receipt', err);
+            });
           }
         }
       });
 
-      this.client.on('sync', (state) => {
+      this.client.on("RoomMember.typing", (event, member) => {
+        if (member.userId !== this.userId) {
+          return;
+        }
+        const base = this.getBaseForMatrixRoom(member.roomId);
+        if (base) {
+          base.sendTyping(member.roomId, member.typing).catch((err) => {
+            this.log.child({ matrixRoomId: member.roomId }).error('Failed to send typing notification', err);
+          });
+        }
+      });
+
+      // if the token is rejected before the first sync, this login only completes with the new one
+      this.client.on('Session.logged_out', (err) => {
+        resolve(this.handleLoggedOut(client, err));
+      });
+
+      this.client.on('sync', (state, _prevState, data) => {
+        if (client !== this.client) {
+          return;
+        }
+        this.syncState = state;
         if ( state === 'PREPARED' ) {
-          console.log('synced');
+          this.log.info('synced');
           resolve();
+        } else if (state === 'ERROR' && data && data.error && data.error.errcode === 'M_UNKNOWN_TOKEN') {
+          resolve(this.handleLoggedOut(client, data.error));
         }
       });
     });
   }
 
+  /**
+   * Called when the homeserver rejects our access token, e.g. because all sessions were
+   * logged out. Logs in again with the stored password, or asks for one in the status room,
+   * saves the new token and restarts the matrix client. The adapters keep running.
+   *
+   * @param {MatrixClient} client The client whose token was rejected
+   * @param {object} err The M_UNKNOWN_TOKEN error
+   * @returns {Promise} Resolves once logged in again, rejects if that failed
+   */
+  private handleLoggedOut(client: MatrixClient, err) : Promise<void> {
+    if (this.relogin) {
+      return this.relogin;
+    }
+    if (client !== this.client) {
+      return Promise.resolve();
+    }
+    const soft = !!(err && err.data && err.data.soft_logout);
+    this.log.warn(soft ? 'puppet was soft logged out' : 'access token of the puppet was revoked', this.userId);
+    client.stopClient();
+    this.syncState = 'LOGGED_OUT';
+
+    const relogin = this.relogin = this.obtainToken().then((token) => {
+      return this.saveToken(token).catch((err) => {
+        this.log.warn('could not save the new access token', err.message);
+        return token;
+      });
+    }).then((token) => {
+      return this.login(token);
+    });
+    relogin.then(() => {
+      this.log.info('puppet logged in again', this.userId);
+      return this.sendStatusMsg('Logged in again as '+this.userId);
+    }, (err) => {
+      this.log.error('failed to log in again', err);
+    }).then(() => {
+      this.relogin = null;
+    });
+    return relogin;
+  }
+
+  /**
+   * @returns {Promise} A promise resolving to a new access token, from the stored
+   * password or from a password typed in the status room
+   */
+  private obtainToken() : Promise<string> {
+    if (!this.identity.password) {
+      return this.askForToken();
+    }
+    return this.loginWithPassword(this.identity.password).catch((err) => {
+      this.log.warn('logging in with the stored password failed', err.message);
+      return this.askForToken();
+    });
+  }
+
+  private askForToken() : Promise<string> {
+    return new Promise((resolve) => {
+      this.passwordPrompt = (password) => {
+        return this.loginWithPassword(password).then((token) => {
+          this.passwordPrompt = null;
+          resolve(token);
+        });
+      };
+      this.sendStatusMsg('The access token of '+this.userId+' is no longer valid. '+
+        'Type !login <password> to log in again, the message is redacted right away.');
+    });
+  }
+
+  private sendStatusMsg(text: string) : Promise<void> {
+    if (this.bases.length === 0) {
+      this.log.warn('no status room to send to', text);
+      return Promise.resolve();
+    }
+    // plain sentences, unlike the output of the status room commands
+    return this.bases[0].sendStatusMsg({ fixedWidthOutput: false }, text).catch((err) => {
+      this.log.warn('failed to send status message', err);
+    });
+  }
+
+  /**
+   * The last sync state of the matrix client, e.g. 'PREPARED' or 'SYNCING', null before the first sync
+   */
+  public getSyncState() : string {
+    return this.syncState;
+  }
+
+  /**
+   * The logger of this puppet, tagged with its localpart
+   */
+  public getLogger() : Logger {
+    return this.log;
+  }
+
+  public getHomeserverUrl() : string {
+    return this.homeserver.url;
+  }
+
+  public getBases() : Base[] {
+    return this.bases.slice();
+  }
+
   public startAdapters() {
     for (let b of this.bases) {
       b.startClient();
     }
   }
 
+  /**
+   * Stops all adapters and the matrix client, e.g. because the puppet was removed from the config
+   *
+   * @returns {Promise}
+   */
+  public stop() : Promise<void> {
+    return Promise.all(this.bases.map(b => b.stop())).then(() => {
+      this.bases = [];
+      if (this.client) {
+        this.client.stopClient();
+      }
+    });
+  }
+
+  /**
+   * Whether all adapters can be stopped, see Base.canStop
+   */
+  public canStop() : boolean {
+    return this.bases.every(b => b.canStop());
+  }
+
   public handleMatrixEvent(req, _context) {
+    const data = req.getData();
+    if (data.type === 'm.room.message' && data.sender === this.userId && this.isStatusRoom(data.room_id)) {
+      return this.handleStatusRoomMessage(data);
+    }
     for (let b of this.bases) {
       b.handleMatrixEvent(req, _context);
     }
   }
 
+  /**
+   * Registers a bang command for the status room
+   *
+   * @param {string} name The command, without the bang
+   * @param {StatusCommand} command
+   */
+  public registerCommand(name: string, command: StatusCommand) {
+    this.statusConsole.register(name, command);
+  }
+
+  private isStatusRoom(roomId: string) : boolean {
+    return this.bases.some(b => b.isStatusRoom(roomId));
+  }
+
+  private handleStatusRoomMessage(data) : Promise<void> {
+    if (this.bases.length === 0) {
+      return Promise.resolve();
+    }
+    const reply = (text: string) => this.bases[0].sendStatusMsg({ fixedWidthOutput: true }, text);
+    return this.statusConsole.handle(this.bases, data, reply).catch((err) => {
+      this.log.error('status room command failed', err);
+    });
+  }
+
+  private registerBuiltinCommands() {
+    this.registerCommand('help', {
+      usage: '!help',
+      description: 'display this information',
+      run: ({ reply }) => reply(this.statusConsole.help())
+    });
+    this.registerCommand('login', {
+      usage: '!login <password>',
+      description: 'log in to matrix again after the access token was revoked',
+      run: ({ data, reply }) => {
+        const password = data.content.body.trim().replace(/^!login\s*/i, '');
+        // don't leave the password in the room history
+        return this.bases[0].redactStatusRoomEvent(data.room_id, data.event_id).catch((err) => {
+          this.log.warn('failed to redact the password', err);
+        }).then(() => {
+          if (!this.passwordPrompt) {
+            return reply('Already logged in as '+this.userId);
+          }
+          if (!password) {
+            return reply('Usage: !login <password>');
+          }
+          return this.passwordPrompt(password).catch((err) => {
+            return reply('Login failed: '+err.message+'. Type !login <password> to try again.');
+          });
+        });
+      }
+    });
+    this.registerCommand('rooms', {
+      usage: '!rooms [target]',
+      description: 'list the bridged rooms',
+      targeted: true,
+      run: ({ bases, reply }) => {
+        return reply(bases.map((b) => {
+          const rooms = b.listRooms();
+          return [b.describe()+': '+rooms.length+' room(s)'].concat(rooms.map(r => '  '+r)).join('\n');
+        }).join('\n'));
+      }
+    });
+    this.registerCommand('reconnect', {
+      usage: '!reconnect [target]',
+      description: 'reconnect to the third party network',
+      targeted: true,
+      run: ({ bases, reply }) => {
+        return Promise.all(bases.map((b) => {
+          return b.reconnect().then(() => {
+            return reply('Reconnected '+b.describe());
+          });
+        })).then(() => {});
+      }
+    });
+    this.registerCommand('logout', {
+      usage: '!logout [target]',
+      description: 'log out of the third party network until !reconnect',
+      targeted: true,
+      run: ({ bases, reply }) => {
+        return Promise.all(bases.map((b) => {
+          return b.logout().then(() => {
+            return reply('Logged out '+b.describe());
+          });
+        })).then(() => {});
+      }
+    });
+    this.registerCommand('sync-contacts', {
+      usage: '!sync-contacts [target]',
+      description: 'join the third party contacts to this room',
+      targeted: true,
+      run: ({ bases, reply }) => {
+        return Promise.all(bases.map((b) => {
+          return b.syncContacts().then(() => {
+            return reply('Synced contacts of '+b.describe());
+          });
+        })).then(() => {});
+      }
+    });
+    this.registerCommand('unlink', {
+      usage: '!unlink <room>',
+      description: 'unlink a room (matrix room ID, alias or third party room ID), a new one is created on the next message',
+      run: ({ bases, args, reply }) => {
+        if (args.length !== 1) {
+          return reply('Usage: !unlink <room>');
+        }
+        return Promise.all(bases.map(b => b.unlinkRoom(args[0]))).then((results) => {
+          if (results.indexOf(true) === -1) {
+            return reply('No bridged room found for '+args[0]);
+          }
+          return reply('Unlinked '+args[0]);
+        });
+      }
+    });
+  }
+
+  /**
+   * Finds the base a bridged matrix room belongs to, through the room mappings
+   *
+   * @param {string} roomId matrix room id
+   * @returns {Base} The base, or undefined if the room isn't bridged
+   */
+  private getBaseForMatrixRoom(roomId: string) : Base {
+    return this.bases.find(b => b.hasMatrixRoom(roomId));
+  }
+
   public makeRoomAlias(s: string): string {
     return '#'+s+':'+this.homeserver.domain;
   }
@@ -139,10 +463,27 @@ export class Puppet {
     adapterClass: any,
     ident: IdentityPair,
     network: string,
-    bridge: Bridge
-  ) {
-    let base = new Base(ident, network, this, bridge, adapterClass);
+    bridge: Bridge,
+    backfill?: Backfill,
+    roomSync?: RoomSync
+  ) : Base {
+    let base = new Base(ident, network, this, bridge, adapterClass, backfill, roomSync);
     this.bases.push(base);
+    return base;
+  }
+
+  /**
+   * Stops and removes the base of an identity pair
+   *
+   * @returns {Promise}
+   */
+  public removeAdapter(network: string, identityPairId: string) : Promise<void> {
+    const base = this.bases.find(b => b.getNetwork() === network && b.getIdentityPairId() === identityPairId);
+    if (!base) {
+      return Promise.resolve();
+    }
+    this.bases.splice(this.bases.indexOf(base), 1);
+    return base.stop();
   }
 
   /**
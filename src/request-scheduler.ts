@@ -0,0 +1,185 @@
+import { logger } from './logger';
+
+const log = logger.child({ component: 'scheduler' });
+
+// high: message sends, normal: room management, low: profile and avatar updates
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITIES : RequestPriority[] = ['high', 'normal', 'low'];
+
+// when the homeserver doesn't say how long to wait
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+// the asynchronous MatrixClient and Intent methods Base uses, other methods are called directly
+const METHOD_PRIORITIES : { [method: string]: RequestPriority } = {
+  sendMessage: 'high',
+  sendImageMessage: 'high',
+  sendEvent: 'high',
+  redactEvent: 'high',
+  sendReceipt: 'high',
+  sendTyping: 'high',
+  join: 'normal',
+  joinRoom: 'normal',
+  leave: 'normal',
+  invite: 'normal',
+  kick: 'normal',
+  getJoinedRoomMembers: 'normal',
+  createRoom: 'normal',
+  createAlias: 'normal',
+  deleteAlias: 'normal',
+  getRoomIdForAlias: 'normal',
+  setPowerLevel: 'normal',
+  setRoomTag: 'normal',
+  setAccountData: 'normal',
+  setPresence: 'normal',
+  getStateEvent: 'normal',
+  setRoomName: 'low',
+  setRoomTopic: 'low',
+  setRoomAvatar: 'low',
+  sendStateEvent: 'low',
+  setDisplayName: 'low',
+  setAvatarUrl: 'low',
+  uploadContent: 'low',
+  getProfileInfo: 'low'
+};
+
+export interface SchedulerOptions {
+  // requests running at the same time
+  maxConcurrent: number;
+  // how often a rate limited request is retried before it fails
+  maxRetries: number;
+}
+
+const DEFAULT_OPTIONS : SchedulerOptions = {
+  maxConcurrent: 5,
+  maxRetries: 5
+};
+
+interface PendingRequest {
+  run(): Promise<any>;
+  resolve(value: any): void;
+  reject(err: any): void;
+  retries: number;
+}
+
+const isRateLimited = (err) : boolean => {
+  return !!err && (err.errcode === 'M_LIMIT_EXCEEDED' || err.httpStatus === 429);
+};
+
+const retryAfter = (err) : number => {
+  const ms = (err.data && err.data.retry_after_ms) || err.retry_after_ms;
+  return typeof ms === 'number' && ms > 0 ? ms : DEFAULT_RETRY_AFTER_MS;
+};
+
+/**
+ * Runs the requests to one homeserver, highest priority first and only so many at
+ * once. When the homeserver answers M_LIMIT_EXCEEDED, all requests wait for the
+ * time it asks for, and the limited one is tried again.
+ */
+export class RequestScheduler {
+  private options: SchedulerOptions;
+  private queues: { [priority: string]: PendingRequest[] } = { high: [], normal: [], low: [] };
+  private running: number = 0;
+  private pausedUntil: number = 0;
+  private resumeTimer: NodeJS.Timer = null;
+
+  constructor(options: SchedulerOptions = DEFAULT_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * @param {string} priority
+   * @param {function} run Makes the request
+   * @returns {Promise} The result of the request
+   */
+  public schedule<T>(priority: RequestPriority, run: () => Promise<T>) : Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({ run, resolve, reject, retries: 0 });
+      this.next();
+    });
+  }
+
+  /**
+   * Wraps a MatrixClient or Intent, so that its requests go through this scheduler
+   */
+  public wrap<T>(target: T) : T {
+    if (!target) {
+      return target;
+    }
+    return new Proxy(<any>target, {
+      get: (obj, prop) => {
+        const value = obj[prop];
+        if (typeof prop !== 'string' || typeof value !== 'function') {
+          return value;
+        }
+        if (prop === 'getClient') {
+          return (...args) => this.wrap(value.apply(obj, args));
+        }
+        const priority = METHOD_PRIORITIES[prop];
+        if (!priority) {
+          return value;
+        }
+        return (...args) => this.schedule(priority, () => value.apply(obj, args));
+      }
+    });
+  }
+
+  private next() {
+    while (this.running < this.options.maxConcurrent && Date.now() >= this.pausedUntil) {
+      const request = this.take();
+      if (!request) {
+        return;
+      }
+      this.start(request);
+    }
+    if (Date.now() < this.pausedUntil && !this.resumeTimer) {
+      this.resumeTimer = setTimeout(() => {
+        this.resumeTimer = null;
+        this.next();
+      }, this.pausedUntil - Date.now());
+    }
+  }
+
+  private take() : PendingRequest {
+    for (let priority of PRIORITIES) {
+      if (this.queues[priority].length > 0) {
+        return this.queues[priority].shift();
+      }
+    }
+    return null;
+  }
+
+  private start(request: PendingRequest) {
+    this.running++;
+    Promise.resolve().then(() => request.run()).then((value) => {
+      this.running--;
+      request.resolve(value);
+      this.next();
+    }, (err) => {
+      this.running--;
+      if (isRateLimited(err) && request.retries < this.options.maxRetries) {
+        const wait = retryAfter(err);
+        log.warn('rate limited by the homeserver, waiting', wait, 'ms');
+        request.retries++;
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+        // it goes first once we may continue, so its order is kept
+        this.queues.high.unshift(request);
+      } else {
+        request.reject(err);
+      }
+      this.next();
+    });
+  }
+}
+
+const schedulers : { [homeserverUrl: string]: RequestScheduler } = {};
+
+/**
+ * The scheduler shared by all requests to a homeserver
+ */
+export function getScheduler(homeserverUrl: string) : RequestScheduler {
+  if (!schedulers[homeserverUrl]) {
+    schedulers[homeserverUrl] = new RequestScheduler();
+  }
+  return schedulers[homeserverUrl];
+}
@@ -0,0 +1,187 @@
+import { Bridge, MatrixRoom, RemoteRoom } from 'matrix-appservice-bridge';
+import { logger, Logger } from './logger';
+
+export interface RoomMapEntry {
+  thirdPartyRoomId: string;
+  matrixRoomId: string;
+}
+
+/**
+ * Bidirectional mapping between the (encoded) third party room IDs of one identity pair and
+ * their matrix rooms, and the status room of the puppet. It is kept in memory and persisted to
+ * the room store of the bridge, one link per room, so it survives restarts. The bridge must be
+ * running before it is used.
+ */
+export class RoomMap {
+  private bridge: Bridge;
+  private network: string;
+  private identityPairId: string;
+  private log: Logger;
+  private matrixRooms: { [thirdPartyRoomId: string]: string } = {};
+  private thirdPartyRooms: { [matrixRoomId: string]: string } = {};
+  private statusRoomId: string = null;
+
+  constructor(bridge: Bridge, network: string, identityPairId: string) {
+    this.bridge = bridge;
+    this.network = network;
+    this.identityPairId = identityPairId;
+    this.log = logger.child({ network, identityPair: identityPairId });
+  }
+
+  /**
+   * Loads all links of this identity pair from the room store
+   *
+   * @returns {Promise}
+   */
+  public load() : Promise<void> {
+    return this.getRoomStore().then((roomStore) => {
+      return roomStore.getEntriesByRemoteRoomData({
+        network: this.network,
+        identityPair: this.identityPairId
+      });
+    }).then((entries) => {
+      for (let entry of entries) {
+        if (!entry.matrix || !entry.remote) {
+          continue;
+        }
+        if (entry.remote.get('statusRoom')) {
+          // unless it was looked up in the meantime
+          this.statusRoomId = this.statusRoomId || entry.matrix.getId();
+          continue;
+        }
+        this.remember(entry.remote.get('thirdPartyRoomId'), entry.matrix.getId());
+      }
+      this.log.info('loaded %s rooms for %s/%s', entries.length, this.network, this.identityPairId);
+    });
+  }
+
+  public getMatrixRoomId(thirdPartyRoomId: string) : string {
+    return this.matrixRooms[thirdPartyRoomId] || null;
+  }
+
+  public getThirdPartyRoomId(matrixRoomId: string) : string {
+    return this.thirdPartyRooms[matrixRoomId] || null;
+  }
+
+  public getStatusRoomId() : string {
+    return this.statusRoomId;
+  }
+
+  /**
+   * Remembers the status room, so it is known even while the puppet can't look it up
+   *
+   * @returns {Promise} Rejects if it couldn't be persisted
+   */
+  public setStatusRoom(matrixRoomId: string) : Promise<void> {
+    if (this.statusRoomId === matrixRoomId) {
+      return Promise.resolve();
+    }
+    this.statusRoomId = matrixRoomId;
+    // encoded third party room IDs have no '!', so this can't be the ID of one of them
+    const remoteId = this.network+'_puppet_'+this.identityPairId+'!status';
+    const remoteRoom = new RemoteRoom(remoteId, {
+      network: this.network,
+      identityPair: this.identityPairId,
+      statusRoom: true
+    });
+    return this.getRoomStore().then((roomStore) => {
+      return Promise.resolve(roomStore.removeEntriesByRemoteRoomId(remoteId)).then(() => {
+        return roomStore.linkRooms(new MatrixRoom(matrixRoomId), remoteRoom, {}, remoteId);
+      });
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  public entries() : RoomMapEntry[] {
+    return Object.keys(this.matrixRooms).map((thirdPartyRoomId) => {
+      return <RoomMapEntry>{
+        thirdPartyRoomId,
+        matrixRoomId: this.matrixRooms[thirdPartyRoomId]
+      };
+    });
+  }
+
+  /**
+   * Links a third party room to a matrix room, replacing any previous link of either of them
+   *
+   * @returns {Promise} Rejects if the link couldn't be persisted, it is not kept then
+   */
+  public set(thirdPartyRoomId: string, matrixRoomId: string) : Promise<void> {
+    if (this.matrixRooms[thirdPartyRoomId] === matrixRoomId) {
+      return Promise.resolve();
+    }
+    this.forget(thirdPartyRoomId);
+    if (this.thirdPartyRooms[matrixRoomId]) {
+      this.forget(this.thirdPartyRooms[matrixRoomId]);
+    }
+    this.remember(thirdPartyRoomId, matrixRoomId);
+
+    const remoteId = this.getRemoteId(thirdPartyRoomId);
+    const remoteRoom = new RemoteRoom(remoteId, {
+      network: this.network,
+      identityPair: this.identityPairId,
+      thirdPartyRoomId
+    });
+    return this.getRoomStore().then((roomStore) => {
+      return Promise.all([
+        roomStore.removeEntriesByRemoteRoomId(remoteId),
+        roomStore.removeEntriesByMatrixRoomId(matrixRoomId)
+      ]).then(() => {
+        return roomStore.linkRooms(new MatrixRoom(matrixRoomId), remoteRoom, {}, remoteId);
+      });
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    }, (err) => {
+      // so the next set tries again, instead of taking the link for persisted
+      if (this.matrixRooms[thirdPartyRoomId] === matrixRoomId) {
+        this.forget(thirdPartyRoomId);
+      }
+      this.log.error('failed to persist room link', remoteId, matrixRoomId, err);
+      return Promise.reject(err);
+    });
+  }
+
+  /**
+   * Removes the link of a third party room, e.g. after its alias was deleted
+   *
+   * @returns {Promise}
+   */
+  public remove(thirdPartyRoomId: string) : Promise<void> {
+    this.forget(thirdPartyRoomId);
+    return this.getRoomStore().then((roomStore) => {
+      return roomStore.removeEntriesByRemoteRoomId(this.getRemoteId(thirdPartyRoomId));
+    }).then(() => {
+      return; // make sure we return Promise<void>
+    });
+  }
+
+  /**
+   * @returns {Promise} A promise resolving to the room store of the bridge, rejects if the
+   * bridge hasn't loaded it yet, rather than losing what is written to it
+   */
+  private getRoomStore() : Promise<any> {
+    const roomStore = this.bridge.getRoomStore();
+    if (!roomStore) {
+      return Promise.reject(new Error('the room store of the bridge is not loaded yet'));
+    }
+    return Promise.resolve(roomStore);
+  }
+
+  private getRemoteId(thirdPartyRoomId: string) : string {
+    return this.network+'_puppet_'+this.identityPairId+'_'+thirdPartyRoomId;
+  }
+
+  private remember(thirdPartyRoomId: string, matrixRoomId: string) {
+    this.matrixRooms[thirdPartyRoomId] = matrixRoomId;
+    this.thirdPartyRooms[matrixRoomId] = thirdPartyRoomId;
+  }
+
+  private forget(thirdPartyRoomId: string) {
+    const matrixRoomId = this.matrixRooms[thirdPartyRoomId];
+    delete this.matrixRooms[thirdPartyRoomId];
+    if (matrixRoomId) {
+      delete this.thirdPartyRooms[matrixRoomId];
+    }
+  }
+}
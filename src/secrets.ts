@@ -0,0 +1,249 @@
+import * as fs  from 'async-file';
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from 'crypto';
+
+const PASSPHRASE_ENV = 'MATRIX_PUPPET_SECRETS_PASSPHRASE';
+const CIPHER = 'aes-256-gcm';
+const KDF_ITERATIONS = 100000;
+const KDF_DIGEST = 'sha256';
+const KEY_LENGTH = 32;
+
+export interface SecretsConfig {
+  // path of the encrypted keystore, it is created if it doesn't exist
+  store: string;
+  // file holding the passphrase, otherwise it is taken from MATRIX_PUPPET_SECRETS_PASSPHRASE
+  keyFile?: string;
+}
+
+/**
+ * Stands in for a secret in the config: {"$secret": "name"} is looked up in the
+ * keystore, {"$env": "VAR"} is taken from the environment
+ */
+export interface SecretReference {
+  $secret?: string;
+  $env?: string;
+}
+
+export class SecretError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretError';
+  }
+}
+
+interface KeystoreFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const encrypt = (secrets: { [name: string]: string }, salt: Buffer, key: Buffer) : KeystoreFile => {
+  const iv = randomBytes(12);
+  const cipher : any = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(Buffer.from(JSON.stringify(secrets), 'utf8')), cipher.final()]);
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+};
+
+// throws if the key is wrong, or the file was tampered with
+const decrypt = (file: KeystoreFile, key: Buffer) : { [name: string]: string } => {
+  const decipher : any = createDecipheriv(CIPHER, key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+  return JSON.parse(plain.toString('utf8'));
+};
+
+export const isSecretReference = (value) : boolean => {
+  if (typeof value !== 'object' || value === null || Object.keys(value).length !== 1) {
+    return false;
+  }
+  return typeof value.$secret === 'string' || typeof value.$env === 'string';
+};
+
+/**
+ * Local keystore, encrypted with AES-256-GCM using a key derived from a passphrase
+ */
+export class SecretStore {
+  private filePath: string = null;
+  private salt: Buffer;
+  private key: Buffer;
+  private secrets: { [name: string]: string } = {};
+  private lastSave: Promise<void> = Promise.resolve();
+
+  public isOpen() : boolean {
+    return this.filePath !== null;
+  }
+
+  /**
+   * Unlocks the keystore, or creates an empty one
+   *
+   * @param {SecretsConfig} config
+   * @param {object} env The environment, for the passphrase
+   * @returns {Promise}
+   */
+  public async open(config: SecretsConfig, env: { [name: string]: string } = process.env) : Promise<void> {
+    let passphrase : string;
+    if (config.keyFile) {
+      passphrase = (await fs.readFile(config.keyFile)).toString().trim();
+    } else {
+      passphrase = env[PASSPHRASE_ENV];
+    }
+    if (!passphrase) {
+      throw new SecretError('The secrets store needs a passphrase, set '+PASSPHRASE_ENV+' or secrets.keyFile');
+    }
+
+    let file : KeystoreFile = null;
+    try {
+      file = JSON.parse(await fs.readFile(config.store));
+    } catch (err) {
+      if (err.errno != -2) {
+        throw new SecretError("Couldn't read the secrets store "+config.store+': '+err.message);
+      }
+    }
+
+    // a store that is open already stays as it is if this one can't be opened
+    const salt = file ? Buffer.from(file.salt, 'base64') : randomBytes(16);
+    const key = pbkdf2Sync(passphrase, salt, KDF_ITERATIONS, KEY_LENGTH, KDF_DIGEST);
+    let secrets = {};
+    if (file) {
+      try {
+        secrets = decrypt(file, key);
+      } catch (err) {
+        throw new SecretError('Wrong passphrase, or the secrets store '+config.store+' is corrupted');
+      }
+    }
+    this.salt = salt;
+    this.key = key;
+    this.secrets = secrets;
+    this.filePath = config.store;
+  }
+
+  /**
+   * Takes over the keystore another SecretStore opened, e.g. once the config using it was checked
+   *
+   * @param {SecretStore} other An open store, or a closed one to close this one
+   */
+  public replaceWith(other: SecretStore) {
+    this.filePath = other.filePath;
+    this.salt = other.salt;
+    this.key = other.key;
+    this.secrets = other.secrets;
+  }
+
+  /**
+   * Forgets the secrets, e.g. because the secrets store was removed from the config
+   */
+  public close() {
+    this.filePath = null;
+    this.salt = null;
+    this.key = null;
+    this.secrets = {};
+  }
+
+  public has(name: string) : boolean {
+    return this.isOpen() && name in this.secrets;
+  }
+
+  public get(name: string) : string {
+    if (!this.isOpen()) {
+      throw new SecretError('Secret '+JSON.stringify(name)+' is referenced, but no secrets store is configured');
+    }
+    if (!(name in this.secrets)) {
+      throw new SecretError('Unknown secret '+JSON.stringify(name));
+    }
+    return this.secrets[name];
+  }
+
+  public set(name: string, value: string) : Promise<void> {
+    if (!this.isOpen()) {
+      return Promise.reject(new SecretError('No secrets store is configured'));
+    }
+    this.secrets[name] = value;
+    return this.save();
+  }
+
+  /**
+   * Replaces all secret references in a value, recursively
+   *
+   * @param {any} value e.g. a user or the thirdParty config of an identity pair
+   * @param {object} env The environment, for $env references
+   * @returns {any} A copy of the value with the secrets filled in
+   */
+  public resolve(value: any, env: { [name: string]: string } = process.env) : any {
+    if (isSecretReference(value)) {
+      if (value.$secret !== undefined) {
+        return this.get(value.$secret);
+      }
+      if (env[value.$env] === undefined) {
+        throw new SecretError('Environment variable '+value.$env+' is referenced, but not set');
+      }
+      return env[value.$env];
+    }
+    if (Array.isArray(value)) {
+      return value.map(v => this.resolve(v, env));
+    }
+    if (typeof value === 'object' && value !== null) {
+      let resolved = {};
+      for (let key of Object.keys(value)) {
+        resolved[key] = this.resolve(value[key], env);
+      }
+      return resolved;
+    }
+    return value;
+  }
+
+  /**
+   * Writes the secrets as they are now, after the writes before. Secrets another process
+   * (e.g. --migrate-secrets) added to the file in the meantime are kept.
+   *
+   * @returns {Promise}
+   */
+  private save() : Promise<void> {
+    const filePath = this.filePath;
+    const salt = this.salt;
+    const key = this.key;
+    let secrets = { ...this.secrets };
+    const save = this.lastSave.then(() => {
+      return this.readSaved(filePath, salt, key);
+    }).then((saved) => {
+      for (let name in saved) {
+        if (!(name in secrets)) {
+          secrets[name] = saved[name];
+          if (this.filePath === filePath && !(name in this.secrets)) {
+            this.secrets[name] = saved[name];
+          }
+        }
+      }
+      // write to a temporary file first, so a crash can't leave us with half a keystore. It has
+      // a name of its own, in case another process writes the store at the same time
+      const tmpPath = filePath+'.'+randomBytes(4).toString('hex')+'.tmp';
+      return fs.writeFile(tmpPath, JSON.stringify(encrypt(secrets, salt, key), null, 2), { mode: 0o600 }).then(() => {
+        return fs.rename(tmpPath, filePath);
+      }).catch((err) => {
+        return fs.unlink(tmpPath).catch(() => {}).then(() => Promise.reject(err));
+      });
+    });
+    this.lastSave = save.catch(() => {});
+    return save;
+  }
+
+  /**
+   * @returns {Promise} A promise resolving to the secrets in the file, if it is the same keystore
+   */
+  private readSaved(filePath: string, salt: Buffer, key: Buffer) : Promise<{ [name: string]: string }> {
+    return fs.readFile(filePath).then((buffer) => {
+      const file : KeystoreFile = JSON.parse(buffer);
+      return file.salt === salt.toString('base64') ? decrypt(file, key) : {};
+    }).catch(() => {
+      return {}; // not written yet, or not ours to keep
+    });
+  }
+}
+
+export const secretStore = new SecretStore();
@@ -0,0 +1,124 @@
+import { Base } from './base';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'status' });
+
+export interface StatusCommandContext {
+  // the bases the command was addressed to
+  bases: Base[];
+  // whitespace separated arguments, without the target
+  args: string[];
+  // the raw matrix event of the command
+  data: any;
+  reply(text: string): Promise<void>;
+}
+
+export interface StatusCommand {
+  // e.g. '!unlink <room>'
+  usage: string;
+  description: string;
+  // if set, the first argument may name the identity pair(s) the command is for
+  targeted?: boolean;
+  run(ctx: StatusCommandContext): Promise<void>;
+}
+
+export type ReplyFunction = (text: string) => Promise<void>;
+
+const COMMAND_REGEX = /^!([\w-]+)\s*([\s\S]*)$/;
+
+/**
+ * Parses and dispatches the bang commands typed by the puppet in its status room.
+ * Commands which are not registered here are routed to the adapter of the targeted
+ * identity pair, via its handleMatrixUserBangCommand
+ */
+export class StatusConsole {
+  private commands: { [name: string]: StatusCommand } = {};
+
+  /**
+   * Registers a command, replacing an existing one of the same name
+   */
+  public register(name: string, command: StatusCommand) {
+    this.commands[name] = command;
+  }
+
+  /**
+   * Runs a command typed in the status room
+   *
+   * @param {Base[]} bases All the bases of the puppet
+   * @param {object} data The matrix message event
+   * @param {function} reply Sends a notice back to the status room
+   * @returns {Promise}
+   */
+  public handle(bases: Base[], data: any, reply: ReplyFunction) : Promise<void> {
+    const body = (data.content && data.content.body) || '';
+    const matches = body.trim().match(COMMAND_REGEX);
+    if (!matches) {
+      return reply('Type !help for a list of commands');
+    }
+    const name = matches[1].toLowerCase();
+    const rest = matches[2].trim();
+    const args = rest ? rest.split(/\s+/) : [];
+    log.info('status room command', name);
+
+    const command = this.commands[name];
+    if (command && !command.targeted) {
+      return this.run(command, { bases, args, data, reply });
+    }
+
+    const named = this.findTargets(bases, args);
+    if (named) {
+      args.shift(); // the first argument was the target
+    }
+    const targets = named || bases;
+    if (!command && targets.length > 1) {
+      return reply('Please specify which account this is for: ' + bases.map(b => b.describe()).join(', '));
+    }
+    if (command) {
+      return this.run(command, { bases: targets, args, data, reply });
+    }
+
+    const base = targets[0];
+    if (!base || !base.adapter.handleMatrixUserBangCommand) {
+      return reply('Unrecognized command: !' + name + '. Type !help for a list of commands');
+    }
+    return Promise.resolve(base.adapter.handleMatrixUserBangCommand({
+      command: name,
+      body: args.join(' ')
+    }, data));
+  }
+
+  /**
+   * The help text, listing the commands registered here
+   */
+  public help() : string {
+    const names = Object.keys(this.commands).sort();
+    const width = names.reduce((w, n) => Math.max(w, this.commands[n].usage.length), 0);
+    return ['Bang Commands'].concat(names.map((n) => {
+      const { usage, description } = this.commands[n];
+      return usage + ' ' + '.'.repeat(width - usage.length + 3) + ' ' + description;
+    })).concat([
+      'Other commands are passed on to the network adapter, e.g. !<command> [network/]<identityPair> ...'
+    ]).join('\n');
+  }
+
+  /**
+   * Figures out which bases are addressed by the first argument, either
+   * 'identityPairId' or 'network/identityPairId'
+   *
+   * @returns {Base[]} The matching bases, or null if the argument doesn't name any
+   */
+  private findTargets(bases: Base[], args: string[]) : Base[] {
+    if (args.length === 0) {
+      return null;
+    }
+    const matching = bases.filter(b => b.matchesTarget(args[0]));
+    return matching.length > 0 ? matching : null;
+  }
+
+  private run(command: StatusCommand, ctx: StatusCommandContext) : Promise<void> {
+    return command.run(ctx).catch((err) => {
+      log.warn('status room command failed', err);
+      return ctx.reply('Error: ' + (err && err.message ? err.message : err));
+    });
+  }
+}
@@ -0,0 +1,207 @@
+import { logger } from './logger';
+
+const log = logger.child({ component: 'supervisor' });
+
+// stopped: not running, e.g. after !logout
+// starting: first connection attempt in progress
+// connected: up and running
+// degraded: the adapter lost its connection, a restart is pending or in progress
+// failed: the last connection attempt failed, another one is scheduled
+export type AdapterState = 'stopped' | 'starting' | 'connected' | 'degraded' | 'failed';
+
+/**
+ * What the supervisor drives, i.e. a Base and its adapter
+ */
+export interface SupervisedAdapter {
+  // e.g. 'skype/soru'
+  describe(): string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+export interface StateTransition {
+  from: AdapterState;
+  to: AdapterState;
+  // why the state changed, e.g. the error of a failed start
+  reason?: string;
+  // when the next restart happens, if one is scheduled
+  retryInMs?: number;
+}
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+}
+
+const DEFAULT_BACKOFF : BackoffOptions = {
+  initialDelayMs: 5000,
+  maxDelayMs: 5 * 60 * 1000,
+  factor: 2
+};
+
+const describeError = (err) : string => {
+  if (err && err.message) {
+    return err.message;
+  }
+  return err === undefined ? 'unknown error' : String(err);
+};
+
+/**
+ * Keeps an adapter running: tracks its state, restarts it with exponential backoff
+ * when it fails to start or reports a disconnect, and reports every state transition
+ */
+export class AdapterSupervisor {
+  private target: SupervisedAdapter;
+  private onTransition: (transition: StateTransition) => void;
+  private backoff: BackoffOptions;
+  private state: AdapterState = 'stopped';
+  private attempts: number = 0;
+  private retryTimer: NodeJS.Timer = null;
+  // bumped on every start and stop, so outdated attempts can tell they were superseded
+  private generation: number = 0;
+
+  constructor(target: SupervisedAdapter, onTransition: (transition: StateTransition) => void, backoff: BackoffOptions = DEFAULT_BACKOFF) {
+    this.target = target;
+    this.onTransition = onTransition;
+    this.backoff = backoff;
+  }
+
+  public getState() : AdapterState {
+    return this.state;
+  }
+
+  /**
+   * Connects the adapter, and keeps it connected from now on. The backoff is reset.
+   *
+   * @returns {Promise} Resolves once connected, rejects if this attempt failed (a retry is scheduled anyway)
+   */
+  public start() : Promise<void> {
+    this.cancelRetry();
+    this.attempts = 0;
+    this.generation++;
+    this.transition('starting');
+    return this.attempt(this.generation);
+  }
+
+  /**
+   * Disconnects and restarts the adapter, e.g. for !reconnect. The backoff is reset.
+   *
+   * @returns {Promise} Resolves once connected again, rejects if the attempt failed (a retry is scheduled anyway)
+   */
+  public restart() : Promise<void> {
+    this.cancelRetry();
+    this.generation++;
+    const generation = this.generation;
+    return this.target.disconnect().then(() => {
+      if (generation !== this.generation) {
+        return;
+      }
+      this.attempts = 0;
+      this.transition('starting');
+      return this.attempt(generation);
+    });
+  }
+
+  /**
+   * Stops supervising and takes the adapter down
+   *
+   * @param {function} teardown How to take it down, defaults to disconnecting it
+   * @returns {Promise}
+   */
+  public stop(teardown: () => Promise<void> = () => this.target.disconnect()) : Promise<void> {
+    this.cancelRetry();
+    this.generation++;
+    return teardown().then(() => {
+      this.transition('stopped');
+    });
+  }
+
+  /**
+   * The adapter says it lost its connection. It is restarted after a backoff,
+   * unless it reports that it reconnected by itself before that.
+   *
+   * @param {string} reason
+   */
+  public reportDisconnect(reason?: string) {
+    if (this.state !== 'connected') {
+      log.info('ignoring disconnect of', this.target.describe(), 'in state', this.state);
+      return;
+    }
+    this.scheduleRetry('degraded', reason || 'disconnected');
+  }
+
+  /**
+   * The adapter says it is connected again, after reconnecting by itself
+   */
+  public reportConnected() {
+    if (this.state !== 'degraded') {
+      return;
+    }
+    this.cancelRetry();
+    this.attempts = 0;
+    this.transition('connected', 'reconnected');
+  }
+
+  private attempt(generation: number) : Promise<void> {
+    return this.target.connect().then(() => {
+      if (generation !== this.generation) {
+        return;
+      }
+      this.attempts = 0;
+      this.transition('connected');
+    }, (err) => {
+      if (generation !== this.generation) {
+        return;
+      }
+      log.warn('failed to start', this.target.describe(), err);
+      this.scheduleRetry('failed', describeError(err));
+      throw err;
+    });
+  }
+
+  private scheduleRetry(state: AdapterState, reason: string) {
+    this.cancelRetry();
+    const delay = Math.min(this.backoff.initialDelayMs * Math.pow(this.backoff.factor, this.attempts), this.backoff.maxDelayMs);
+    this.attempts++;
+    const generation = this.generation;
+    this.transition(state, reason, delay);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (generation !== this.generation) {
+        return;
+      }
+      log.info('restarting', this.target.describe(), 'attempt', this.attempts);
+      this.target.disconnect().catch((err) => {
+        log.warn('failed to disconnect', this.target.describe(), 'before restarting it', err);
+      }).then(() => {
+        if (generation === this.generation) {
+          return this.attempt(generation);
+        }
+      }).catch(() => {
+        // already reported, and the next retry is scheduled
+      });
+    }, delay);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private transition(to: AdapterState, reason?: string, retryInMs?: number) {
+    const from = this.state;
+    this.state = to;
+    if (from === to && reason === undefined) {
+      return;
+    }
+    log.info(this.target.describe(), from, '->', to, reason || '');
+    try {
+      this.onTransition({ from, to, reason, retryInMs });
+    } catch (err) {
+      log.warn('state transition handler failed', err);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseAdapterSpec, validateAdapter, AdapterError } from '../src/adapter-registry';
+import { configureLogging } from '../src/logger';
+
+configureLogging({ level: 'error' });
+
+const adapterModule = (exports: any = {}, skip: string[] = []) => {
+  class Adapter {}
+  ['initClient', 'startClient', 'getUserData', 'getRoomData', 'sendMessage', 'sendImageMessage', 'sendReadReceipt']
+    .filter(m => skip.indexOf(m) === -1)
+    .forEach(m => Adapter.prototype[m] = () => Promise.resolve());
+  return { Adapter, ...exports };
+};
+
+describe('parseAdapterSpec', () => {
+  it('resolves relative and absolute paths', () => {
+    assert.deepEqual(parseAdapterSpec('./adapters/skype'), { path: path.resolve('adapters/skype') });
+    assert.deepEqual(parseAdapterSpec('/opt/skype'), { path: '/opt/skype' });
+  });
+
+  it('takes packages pinned to an exact version', () => {
+    assert.deepEqual(parseAdapterSpec('matrix-puppet-skype@1.2.0'), { packageName: 'matrix-puppet-skype', version: '1.2.0' });
+    assert.deepEqual(parseAdapterSpec('@acme/skype@2.0.0-beta.1'), { packageName: '@acme/skype', version: '2.0.0-beta.1' });
+  });
+
+  it('rejects packages without a version', () => {
+    assert.throws(() => parseAdapterSpec('matrix-puppet-skype'), /must be a path, or a package pinned to a version/);
+    assert.throws(() => parseAdapterSpec('@acme/skype'), /must be a path, or a package pinned to a version/);
+  });
+
+  it('rejects version ranges and tags', () => {
+    assert.throws(() => parseAdapterSpec('matrix-puppet-skype@^1.2.0'), /pinned to an exact version, not "\^1.2.0"/);
+    assert.throws(() => parseAdapterSpec('matrix-puppet-skype@latest'), /pinned to an exact version, not "latest"/);
+  });
+
+  it('rejects invalid package names', () => {
+    assert.throws(() => parseAdapterSpec('Matrix Puppet@1.0.0'), /invalid package name "Matrix Puppet"/);
+  });
+});
+
+describe('validateAdapter', () => {
+  it('returns the Adapter class', () => {
+    const module = adapterModule({ apiVersion: 1 });
+    assert.equal(validateAdapter('skype', module), module.Adapter);
+  });
+
+  it('takes the API version from the module or the class', () => {
+    const module = adapterModule();
+    module.Adapter['apiVersion'] = 1;
+    assert.equal(validateAdapter('skype', module), module.Adapter);
+    // the one of the module comes first
+    assert.throws(() => validateAdapter('skype', { ...module, apiVersion: 2 }), /API version 2 is not supported/);
+  });
+
+  it('rejects a module without an Adapter class', () => {
+    assert.throws(() => validateAdapter('skype', {}), (err) => {
+      return err instanceof AdapterError && /Adapter of network skype: doesn't export the 'Adapter' class/.test(err.message);
+    });
+    assert.throws(() => validateAdapter('skype', null), /doesn't export the 'Adapter' class/);
+  });
+
+  it('lists the methods an Adapter lacks', () => {
+    assert.throws(() => validateAdapter('skype', adapterModule({ apiVersion: 1 }, ['getRoomData', 'sendReadReceipt'])),
+      /Adapter lacks getRoomData, sendReadReceipt/);
+  });
+
+  it('rejects API versions this server does not support', () => {
+    assert.throws(() => validateAdapter('skype', adapterModule({ apiVersion: 2 })), /API version 2 is not supported, this server supports 1/);
+    assert.throws(() => validateAdapter('skype', adapterModule({ apiVersion: '1' })), /API version "1" is not supported/);
+  });
+
+  it('assumes version 1 for adapters which predate versioning, and warns about it', () => {
+    const write = process.stderr.write;
+    let written = '';
+    configureLogging({ level: 'warn' });
+    process.stderr.write = <any>((line: string) => {
+      written += line;
+      return true;
+    });
+    try {
+      const module = adapterModule();
+      assert.equal(validateAdapter('skype', module), module.Adapter);
+    } finally {
+      process.stderr.write = write;
+      configureLogging({ level: 'error' });
+    }
+    assert.ok(/the adapter of skype doesn't declare an apiVersion, assuming 1/.test(written), written);
+  });
+});
@@ -0,0 +1,248 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Base } from '../src/base';
+import { messageStore } from '../src/message-store';
+import { registry } from '../src/metrics';
+import { ghostCache } from '../src/ghost-cache';
+import { JsonGhostStore } from '../src/ghost-store';
+import { configureLogging, logger } from '../src/logger';
+import { assertRejects, fakeRoomStore } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const PUPPET = '@alice:example.org';
+
+/**
+ * A matrix client whose next redactions fail when told to
+ */
+const fakeClient = (userId: string) => {
+  const client = {
+    credentials: { userId },
+    failRedactions: 0,
+    redacted: <string[]>[],
+    redactEvent: (roomId, eventId) => {
+      if (client.failRedactions > 0) {
+        client.failRedactions--;
+        return Promise.reject(new Error('gateway timeout'));
+      }
+      client.redacted.push(eventId);
+      return Promise.resolve({ event_id: '$redaction'+client.redacted.length });
+    }
+  };
+  return client;
+};
+
+/**
+ * An adapter whose next deletions or reaction removals fail when told to
+ */
+class FakeAdapter {
+  static last : FakeAdapter;
+  failures = 0;
+  deleted : string[] = [];
+  unreacted : string[] = [];
+
+  constructor() {
+    FakeAdapter.last = this;
+  }
+
+  private attempt(done: string[], what: string) : Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      return Promise.reject(new Error('network unreachable'));
+    }
+    done.push(what);
+    return Promise.resolve();
+  }
+
+  deleteMessage(roomId, messageId) {
+    return this.attempt(this.deleted, messageId);
+  }
+
+  removeReaction(roomId, messageId, reaction) {
+    return this.attempt(this.unreacted, messageId+' '+reaction);
+  }
+}
+
+describe('Base', () => {
+  let cwd : string;
+  let dir : string;
+  let puppetClient;
+  let base : any;
+  let adapter : FakeAdapter;
+
+  const stored = (matrixEventId) => messageStore.getByMatrixEventId('skype', 'soru', 'room', matrixEventId);
+
+  before(() => {
+    // the message store writes next to the bridge
+    cwd = process.cwd();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'base-test-'));
+    process.chdir(dir);
+  });
+
+  after(() => {
+    return messageStore.flush().then(() => {
+      process.chdir(cwd);
+      fs.readdirSync(dir).forEach(f => fs.unlinkSync(path.join(dir, f)));
+      fs.rmdirSync(dir);
+    });
+  });
+
+  beforeEach(() => {
+    puppetClient = fakeClient(PUPPET);
+    const puppet = <any>{
+      userId: PUPPET,
+      getLogger: () => logger.child({ puppet: 'alice' }),
+      getHomeserverUrl: () => 'https://matrix.example.org',
+      getClient: () => puppetClient,
+      makeUserAlias: (s) => '@'+s+':example.org',
+      makeRoomAlias: (s) => '#'+s+':example.org'
+    };
+    const roomStore = fakeRoomStore();
+    const bridge = <any>{
+      getRoomStore: () => roomStore,
+      getIntent: () => null
+    };
+    base = new Base(<any>{ id: 'soru', matrixPuppet: 'alice', thirdParty: {} }, 'skype', puppet, bridge, FakeAdapter);
+    adapter = FakeAdapter.last;
+    return base.rooms.set('room', '!room').then(() => {
+      return messageStore.add('skype', 'soru', 'room', { matrixEventId: '$message', remoteId: 'msg1', sender: PUPPET });
+    });
+  });
+
+  describe('a message deleted on the third party network', () => {
+    const deletion = { roomId: 'room', messageId: 'msg1' };
+
+    it('stays mapped until it is redacted on matrix, so a retry still redacts it', async () => {
+      puppetClient.failRedactions = 1;
+      await assertRejects(base.deliverThirdPartyRoomRedaction(deletion), /gateway timeout/);
+      assert.ok(await stored('$message'));
+      await base.deliverThirdPartyRoomRedaction(deletion);
+      assert.deepEqual(puppetClient.redacted, ['$message']);
+      assert.equal(await stored('$message'), null);
+    });
+  });
+
+  describe('a message redacted on matrix', () => {
+    const redaction = { room_id: '!room', sender: PUPPET, event_id: '$redaction', redacts: '$message' };
+
+    it('stays mapped until it is deleted on the third party network, so a retry still deletes it', async () => {
+      adapter.failures = 1;
+      await assertRejects(base.deliverMatrixRedactionEvent(redaction, 'room'), /network unreachable/);
+      assert.ok(await stored('$message'));
+      await base.deliverMatrixRedactionEvent(redaction, 'room');
+      assert.deepEqual(adapter.deleted, ['msg1']);
+      assert.equal(await stored('$message'), null);
+    });
+
+    it('is not redacted again when the deletion echoes back', async () => {
+      await base.deliverMatrixRedactionEvent(redaction, 'room');
+      await base.deliverThirdPartyRoomRedaction({ roomId: 'room', messageId: 'msg1' });
+      assert.deepEqual(puppetClient.redacted, []);
+    });
+  });
+
+  describe('a reaction', () => {
+    beforeEach(() => {
+      return messageStore.add('skype', 'soru', 'room', {
+        matrixEventId: '$reaction', remoteId: null, sender: PUPPET, reactionTo: 'msg1', reactionKey: '+1'
+      });
+    });
+
+    it('taken back on the third party network stays mapped until redacted, so a retry still redacts it', async () => {
+      const removal = { roomId: 'room', messageId: 'msg1', reaction: '+1' };
+      puppetClient.failRedactions = 1;
+      await assertRejects(base.deliverThirdPartyRoomReactionRemoval(removal), /gateway timeout/);
+      assert.ok(await stored('$reaction'));
+      await base.deliverThirdPartyRoomReactionRemoval(removal);
+      assert.deepEqual(puppetClient.redacted, ['$reaction']);
+      assert.equal(await stored('$reaction'), null);
+    });
+
+    it('redacted on matrix stays mapped until removed on the third party network, so a retry still removes it', async () => {
+      const redaction = { room_id: '!room', sender: PUPPET, event_id: '$redaction', redacts: '$reaction' };
+      adapter.failures = 1;
+      await assertRejects(base.deliverMatrixRedactionEvent(redaction, 'room'), /network unreachable/);
+      assert.ok(await stored('$reaction'));
+      await base.deliverMatrixRedactionEvent(redaction, 'room');
+      assert.deepEqual(adapter.unreacted, ['msg1 +1']);
+      assert.equal(await stored('$reaction'), null);
+      // the removal echoing back is not redacted again
+      await base.deliverThirdPartyRoomReactionRemoval({ roomId: 'room', messageId: 'msg1', reaction: '+1' });
+      assert.deepEqual(puppetClient.redacted, []);
+    });
+  });
+
+  describe('a queued item', () => {
+    const sendFailures = (direction: string) : number => {
+      const line = 'matrix_puppet_send_failures_total{direction="'+direction+'",identity_pair="soru",network="skype"} ';
+      const found = registry.render().split('\n').find(l => l.indexOf(line) === 0);
+      return found ? Number(found.slice(line.length)) : 0;
+    };
+
+    it('counts every failed attempt, also the ones retried successfully', async () => {
+      const before = sendFailures('to_remote');
+      const item = {
+        kind: 'matrix_redaction',
+        direction: 'to_remote',
+        room: 'room',
+        payload: { room_id: '!room', sender: PUPPET, event_id: '$redaction', redacts: '$message' }
+      };
+      adapter.failures = 2;
+      await assertRejects(base.sendQueueItem(item), /network unreachable/);
+      await assertRejects(base.sendQueueItem(item), /network unreachable/);
+      await base.sendQueueItem(item);
+      assert.equal(sendFailures('to_remote'), before + 2);
+      assert.deepEqual(adapter.deleted, ['msg1']);
+    });
+  });
+
+  describe('the avatar of a ghost', () => {
+    const GHOST = '@skype_puppet_soru_bob:example.org';
+    let avatars : string[];
+    let roomAvatars : string[];
+
+    before(() => {
+      return ghostCache.open(new JsonGhostStore('ghost_cache.json'), []);
+    });
+
+    after(() => {
+      return ghostCache.close();
+    });
+
+    beforeEach(() => {
+      avatars = [];
+      roomAvatars = [];
+      base.bridge.getIntent = (userId) => userId ? {
+        getClient: () => ({}),
+        setDisplayName: () => Promise.resolve(),
+        setAvatarUrl: (contentUri) => {
+          avatars.push(contentUri);
+          return Promise.resolve();
+        }
+      } : {
+        getClient: () => ({
+          setRoomName: () => Promise.resolve(),
+          sendStateEvent: (roomId, type, content) => {
+            roomAvatars.push(roomId+' '+content.url);
+            return Promise.resolve();
+          }
+        })
+      };
+      // signed URLs change, the image behind them doesn't
+      base.uploadAvatar = (client, url) => Promise.resolve(url.indexOf('/b.png') !== -1 ? 'mxc://example.org/b' : 'mxc://example.org/a');
+      return base.ghosts.associateAvatarUrl(GHOST, '!dm');
+    });
+
+    it('is only set again, also on the rooms named after it, when the image changed', async () => {
+      await base.getIntentFromThirdPartySenderId('bob', 'Bob', 'https://cdn.example.org/a.png?sig=1');
+      await base.getIntentFromThirdPartySenderId('bob', 'Bob', 'https://cdn.example.org/a.png?sig=2');
+      assert.deepEqual(avatars, ['mxc://example.org/a']);
+      assert.deepEqual(roomAvatars, ['!dm mxc://example.org/a']);
+      await base.getIntentFromThirdPartySenderId('bob', 'Bob', 'https://cdn.example.org/b.png?sig=3');
+      assert.deepEqual(avatars, ['mxc://example.org/a', 'mxc://example.org/b']);
+      assert.deepEqual(roomAvatars, ['!dm mxc://example.org/a', '!dm mxc://example.org/b']);
+    });
+  });
+});
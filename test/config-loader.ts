@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, validateConfig, applyEnvOverrides, ConfigError } from '../src/config-loader';
+
+const validConfig = () : any => ({
+  homeserver: { domain: 'example.org', url: 'https://matrix.example.org' },
+  users: { alice: { password: 'pw' } },
+  networks: {
+    skype: {
+      identityPairs: {
+        soru: { matrixPuppet: 'alice', thirdParty: { username: 'soru' } }
+      }
+    }
+  }
+});
+
+const pathsOf = (problems) => problems.map(p => p.path);
+
+describe('config validation', () => {
+  it('accepts a valid config and fills in the defaults', () => {
+    const config = validConfig();
+    assert.deepEqual(validateConfig(config), []);
+    assert.equal(config.httpserver.port, 8090);
+    assert.equal(config.homeserver.registration, 'registration.yaml');
+  });
+
+  it('lists every problem with its path', () => {
+    const config = validConfig();
+    config.homeserver.url = 'matrix.example.org';
+    config.users.bob = {};
+    config.networks.skype.identityPairs.soru.matrixPuppet = 'carol';
+    config.networks.skype.backfill = { limit: -1 };
+    config.extra = true;
+    assert.deepEqual(pathsOf(validateConfig(config)), [
+      '$.extra',
+      '$.homeserver.url',
+      '$.users.bob',
+      '$.networks.skype.backfill.limit',
+      '$.networks.skype.identityPairs.soru.matrixPuppet'
+    ]);
+  });
+
+  it('accepts secret references in place of passwords', () => {
+    const config = validConfig();
+    config.users.alice.password = { $secret: 'users.alice.password' };
+    config.users.bob = { token: { $env: 'BOB_TOKEN' } };
+    assert.deepEqual(validateConfig(config), []);
+  });
+
+  it('validates the monitoring settings', () => {
+    const config = validConfig();
+    config.monitoring = { sharedSecret: '' };
+    assert.deepEqual(pathsOf(validateConfig(config)), ['$.monitoring.sharedSecret']);
+  });
+});
+
+describe('environment overrides', () => {
+  it('override nested settings and are validated like the file', () => {
+    const config = validConfig();
+    const problems = validateConfig(config, {
+      MATRIX_PUPPET__users__alice__password: 'from-env',
+      MATRIX_PUPPET__httpserver__port: '9000',
+      MATRIX_PUPPET__networks__skype__backfill__limit: 'many',
+      OTHER: 'ignored'
+    });
+    assert.equal(config.users.alice.password, 'from-env');
+    assert.equal(config.httpserver.port, 9000);
+    assert.deepEqual(pathsOf(problems), ['$.networks.skype.backfill.limit']);
+  });
+
+  it('report overrides that do not fit the config', () => {
+    const config = validConfig();
+    const problems = applyEnvOverrides(config, {
+      MATRIX_PUPPET__users__alice__password__x: 'a',
+      MATRIX_PUPPET____broken: 'b'
+    });
+    assert.deepEqual(pathsOf(problems), ['$env.MATRIX_PUPPET____broken', '$.users.alice.password']);
+  });
+});
+
+describe('loadConfig', () => {
+  let file : string;
+
+  beforeEach(() => {
+    file = path.join(os.tmpdir(), 'config-test-'+process.pid+'-'+Date.now()+'.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it('rejects an invalid file with its problems', async () => {
+    const config = validConfig();
+    delete config.users;
+    fs.writeFileSync(file, JSON.stringify(config));
+    const err = await loadConfig(file, {}).then(() => null, (e) => e);
+    assert.ok(err instanceof ConfigError);
+    assert.deepEqual(pathsOf(err.problems), ['$.users']);
+  });
+
+  it('resolves to the validated config', async () => {
+    fs.writeFileSync(file, JSON.stringify(validConfig()));
+    const config = await loadConfig(file, { MATRIX_PUPPET__homeserver__domain: 'other.org' });
+    assert.equal(config.homeserver.domain, 'other.org');
+  });
+});
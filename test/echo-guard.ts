@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { EchoGuard } from '../src/echo-guard';
+import { delay } from './helpers';
+
+describe('EchoGuard', () => {
+  it('recognizes matrix events it sent, by event or transaction ID', async () => {
+    const echoes = new EchoGuard();
+    await echoes.sendToMatrix('!room', () => Promise.resolve({ event_id: '$sent' }), 'txn1');
+    assert.equal(await echoes.isMatrixEcho({ room_id: '!room', event_id: '$sent' }), true);
+    assert.equal(await echoes.isMatrixEcho({ room_id: '!room', event_id: '$other', unsigned: { transaction_id: 'txn1' } }), true);
+    assert.equal(await echoes.isMatrixEcho({ room_id: '!room', event_id: '$other' }), false);
+  });
+
+  it('recognizes third party messages it sent, by the ID the adapter resolved to', async () => {
+    const echoes = new EchoGuard();
+    await echoes.sendToRemote('room', () => Promise.resolve('msg1'));
+    await echoes.sendToRemote('room', () => Promise.resolve({ not: 'an id' }));
+    assert.equal(await echoes.isRemoteEcho('room', 'msg1'), true);
+    assert.equal(await echoes.isRemoteEcho('room', 'msg2'), false);
+  });
+
+  it('remembers the given echo ID for sends without a message ID', async () => {
+    const echoes = new EchoGuard();
+    await echoes.sendToRemote('room', () => Promise.resolve(), 'edit:msg1:new text');
+    assert.equal(await echoes.isRemoteEcho('room', 'edit:msg1:new text'), true);
+    assert.equal(await echoes.isRemoteEcho('room', 'edit:msg1:other text'), false);
+  });
+
+  it('waits for sends in progress, in case the echo arrives first', async () => {
+    const echoes = new EchoGuard();
+    let resolveSend : (id: string) => void;
+    const sending = echoes.sendToRemote('room', () => new Promise<string>(resolve => resolveSend = resolve));
+    const echo = echoes.isRemoteEcho('room', 'msg1');
+    await delay(5);
+    resolveSend('msg1');
+    await sending;
+    assert.equal(await echo, true);
+  });
+
+  it('does not wait for sends in other rooms', async () => {
+    const echoes = new EchoGuard();
+    echoes.sendToRemote('room', () => new Promise<string>(() => {}));
+    assert.equal(await echoes.isRemoteEcho('other room', 'msg1'), false);
+  });
+
+  it('forgets what it sent after a while', async () => {
+    const echoes = new EchoGuard(20);
+    await echoes.sendToMatrix('!room', () => Promise.resolve({ event_id: '$sent' }));
+    await echoes.sendToRemote('room', () => Promise.resolve('msg1'));
+    await delay(30);
+    assert.equal(await echoes.isMatrixEcho({ room_id: '!room', event_id: '$sent' }), false);
+    assert.equal(await echoes.isRemoteEcho('room', 'msg1'), false);
+  });
+
+  it('does not remember failed sends', async () => {
+    const echoes = new EchoGuard();
+    await echoes.sendToRemote('room', () => Promise.reject(new Error('offline'))).catch(() => {});
+    assert.equal(await echoes.isRemoteEcho('room', 'msg1'), false);
+  });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GhostCache } from '../src/ghost-cache';
+import { GhostStore, JsonGhostStore, NedbGhostStore } from '../src/ghost-store';
+import { configureLogging } from '../src/logger';
+
+configureLogging({ level: 'error' });
+
+const PAIRS = [{ network: 'skype', identityPairId: 'soru' }];
+
+const LEGACY = {
+  '@skype_puppet_soru_YWxpY2U=:example.org': { name: 'Alice' },
+  '@slack_puppet_work_Ym9i:example.org': { name: 'Bob' }
+};
+
+describe('GhostCache', () => {
+  let dir : string;
+  let legacyFile : string;
+  let stores : GhostStore[];
+
+  const open = (store: GhostStore) => {
+    stores.push(store);
+    const cache = new GhostCache();
+    return cache.open(store, PAIRS, legacyFile).then(() => cache);
+  };
+
+  beforeEach(() => {
+    stores = [];
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ghost-store-test-'));
+    legacyFile = path.join(dir, 'ghost_cache.json');
+    fs.writeFileSync(legacyFile, JSON.stringify(LEGACY));
+  });
+
+  afterEach(() => {
+    return Promise.all(stores.map(s => s.close())).then(() => {
+      fs.readdirSync(dir).forEach(f => fs.unlinkSync(path.join(dir, f)));
+      fs.rmdirSync(dir);
+    });
+  });
+
+  it('moves the entries of the legacy file to their identity pair in place', async () => {
+    const store = new JsonGhostStore(legacyFile);
+    const cache = await open(store);
+    assert.deepEqual(await cache.get('skype/soru/@skype_puppet_soru_YWxpY2U=:example.org'), { name: 'Alice' });
+    // its identity pair may come back
+    assert.deepEqual(await cache.get('@slack_puppet_work_Ym9i:example.org'), { name: 'Bob' });
+    assert.ok(!fs.existsSync(legacyFile+'.migrated'));
+    const written = JSON.parse(fs.readFileSync(legacyFile, 'utf8'));
+    assert.deepEqual(Object.keys(written).sort(), [
+      '@slack_puppet_work_Ym9i:example.org', 'skype/soru/@skype_puppet_soru_YWxpY2U=:example.org'
+    ]);
+  });
+
+  it('imports the legacy file into a JSON store kept elsewhere', async () => {
+    const file = path.join(dir, 'ghosts.json');
+    const cache = await open(new JsonGhostStore(file));
+    assert.deepEqual(await cache.get('skype/soru/@skype_puppet_soru_YWxpY2U=:example.org'), { name: 'Alice' });
+    assert.ok(!fs.existsSync(legacyFile));
+    assert.ok(fs.existsSync(legacyFile+'.migrated'));
+    // written before the legacy file was moved aside
+    assert.ok(JSON.parse(fs.readFileSync(file, 'utf8'))['@slack_puppet_work_Ym9i:example.org']);
+  });
+
+  it('imports the legacy file into a nedb store', async () => {
+    const file = path.join(dir, 'ghost_cache.db');
+    await open(new NedbGhostStore(file));
+    assert.ok(fs.existsSync(legacyFile+'.migrated'));
+    const reopened = await open(new NedbGhostStore(file));
+    assert.deepEqual(await reopened.get('skype/soru/@skype_puppet_soru_YWxpY2U=:example.org'), { name: 'Alice' });
+  });
+
+  it('writes pending changes when closed', async () => {
+    fs.unlinkSync(legacyFile);
+    const file = path.join(dir, 'ghosts.json');
+    const cache = await open(new JsonGhostStore(file));
+    cache.modify('skype/soru/@ghost', (entry) => {
+      entry.name = 'Carol';
+      return true;
+    });
+    await cache.close();
+    assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf8')), { 'skype/soru/@ghost': { name: 'Carol' } });
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Resolves if the promise rejects with an error matching the pattern
+ */
+export function assertRejects(promise: Promise<any>, pattern: RegExp) : Promise<void> {
+  return promise.then(() => {
+    assert.fail(null, pattern, 'expected a rejection matching '+pattern, '');
+  }, (err) => {
+    assert.ok(pattern.test(err.message), 'expected '+JSON.stringify(err.message)+' to match '+pattern);
+  });
+}
+
+export const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * The temporary files left behind by writes of a file
+ */
+export const tempFilesOf = (file: string) : string[] => {
+  const prefix = path.basename(file)+'.';
+  return fs.readdirSync(path.dirname(file)).filter((f) => {
+    return f.indexOf(prefix) === 0 && /\.tmp$/.test(f);
+  }).map(f => path.join(path.dirname(file), f));
+};
+
+/**
+ * A room store keeping its links in memory, failing the next links when told to
+ */
+export const fakeRoomStore = () => {
+  const store = {
+    failLinks: 0,
+    links: <{ [remoteId: string]: { matrixRoomId: string, data: any } }>{},
+    getEntriesByRemoteRoomData: (data) => {
+      return Promise.resolve(Object.keys(store.links).filter((remoteId) => {
+        return Object.keys(data).every(key => store.links[remoteId].data[key] === data[key]);
+      }).map((remoteId) => ({
+        matrix: { getId: () => store.links[remoteId].matrixRoomId },
+        remote: { get: (key) => store.links[remoteId].data[key] }
+      })));
+    },
+    removeEntriesByRemoteRoomId: (remoteId) => {
+      delete store.links[remoteId];
+      return Promise.resolve();
+    },
+    removeEntriesByMatrixRoomId: (matrixRoomId) => {
+      Object.keys(store.links).filter(id => store.links[id].matrixRoomId === matrixRoomId).forEach(id => delete store.links[id]);
+      return Promise.resolve();
+    },
+    linkRooms: (matrixRoom, remoteRoom) => {
+      if (store.failLinks > 0) {
+        store.failLinks--;
+        return Promise.reject(new Error('database is locked'));
+      }
+      store.links[remoteRoom.getId()] = { matrixRoomId: matrixRoom.getId(), data: remoteRoom.data };
+      return Promise.resolve();
+    }
+  };
+  return store;
+};
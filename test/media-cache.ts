@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { MediaCache } from '../src/media-cache';
+import { configureLogging } from '../src/logger';
+import { assertRejects, tempFilesOf } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const tmpFile = (name: string) => path.join(os.tmpdir(), 'media-cache-test-'+process.pid+'-'+name);
+
+const fakeClient = () => {
+  let uploads : Buffer[] = [];
+  const client : any = {
+    uploads,
+    uploadContent: (buffer: Buffer) => {
+      uploads.push(buffer);
+      return Promise.resolve({ content_uri: 'mxc://example.org/'+uploads.length });
+    }
+  };
+  return client;
+};
+
+describe('MediaCache', () => {
+  let server : http.Server;
+  let base : string;
+  let requests : http.IncomingMessage[];
+  let handler : (req: http.IncomingMessage, res: http.ServerResponse) => void;
+  let file : string;
+  let caches : MediaCache[];
+  let stagingDir : string;
+
+  const newCache = (limits = {}) => {
+    const cache = new MediaCache(file, { stagingDir, ...limits });
+    caches.push(cache);
+    return cache;
+  };
+
+  beforeEach((done) => {
+    requests = [];
+    caches = [];
+    file = tmpFile(String(Date.now()));
+    stagingDir = file+'-staging';
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      base = 'http://127.0.0.1:'+server.address().port;
+      done();
+    });
+  });
+
+  afterEach(() => {
+    return Promise.all(caches.map(c => c.flush())).then(() => {
+      [file].concat(tempFilesOf(file)).forEach(f => fs.existsSync(f) && fs.unlinkSync(f));
+      if (fs.existsSync(stagingDir)) {
+        fs.readdirSync(stagingDir).forEach(f => fs.unlinkSync(path.join(stagingDir, f)));
+        fs.rmdirSync(stagingDir);
+      }
+      return new Promise(resolve => server.close(resolve));
+    });
+  });
+
+  const serveImage = (body: string) => {
+    handler = (req, res) => {
+      if (req.headers['if-none-match'] === '"v1"') {
+        res.writeHead(304);
+        return res.end();
+      }
+      res.writeHead(200, { 'content-type': 'image/png; charset=binary', etag: '"v1"' });
+      res.end(body);
+    };
+  };
+
+  it('uploads media fetched for the first time', async () => {
+    serveImage('image');
+    const client = fakeClient();
+    const media = await newCache().uploadUrl(client, base+'/a.png', { name: 'a.png' });
+    assert.deepEqual(media, {
+      contentUri: 'mxc://example.org/1', type: 'image/png', size: 5, downloaded: true, uploaded: true
+    });
+    assert.equal(client.uploads.length, 1);
+  });
+
+  it('revalidates a known URL and reuses its upload when it is not modified', async () => {
+    serveImage('image');
+    const client = fakeClient();
+    const cache = newCache();
+    await cache.uploadUrl(client, base+'/a.png', { name: 'a.png' });
+    const media = await cache.uploadUrl(client, base+'/a.png', { name: 'a.png' });
+    assert.equal(requests[1].headers['if-none-match'], '"v1"');
+    assert.equal(media.contentUri, 'mxc://example.org/1');
+    assert.equal(media.downloaded, false);
+    assert.equal(media.uploaded, false);
+    assert.equal(client.uploads.length, 1);
+  });
+
+  it('reuses the upload of the same content from another URL or a buffer', async () => {
+    serveImage('image');
+    const client = fakeClient();
+    const cache = newCache();
+    await cache.uploadUrl(client, base+'/a.png', { name: 'a.png' });
+    const fromUrl = await cache.uploadUrl(client, base+'/b.png', { name: 'b.png' });
+    const fromBuffer = await cache.uploadBuffer(client, Buffer.from('image'), { name: 'c.png' });
+    assert.equal(fromUrl.downloaded, true);
+    assert.equal(fromUrl.uploaded, false);
+    assert.equal(fromBuffer.contentUri, 'mxc://example.org/1');
+    assert.equal(client.uploads.length, 1);
+  });
+
+  it('uploads the same content only once when asked concurrently', async () => {
+    const client = fakeClient();
+    const cache = newCache();
+    const media = await Promise.all([1, 2, 3].map(() => cache.uploadBuffer(client, Buffer.from('same'), { name: 'a' })));
+    assert.deepEqual(media.map(m => m.contentUri), ['mxc://example.org/1', 'mxc://example.org/1', 'mxc://example.org/1']);
+    assert.equal(client.uploads.length, 1);
+  });
+
+  it('uploads staged media and removes it once discarded', async () => {
+    const client = fakeClient();
+    const cache = newCache();
+    const hash = await cache.stage(Buffer.from('staged'));
+    assert.equal(fs.readdirSync(stagingDir).length, 1);
+    const media = await cache.uploadStaged(client, hash, { name: 'a.png' });
+    assert.equal(media.contentUri, 'mxc://example.org/1');
+    assert.equal(client.uploads[0].toString(), 'staged');
+    await cache.discardStaged(hash);
+    assert.equal(fs.readdirSync(stagingDir).length, 0);
+    // known content is not staged again
+    assert.equal(await cache.stage(Buffer.from('staged')), hash);
+    assert.equal(fs.readdirSync(stagingDir).length, 0);
+    assert.equal((await cache.uploadStaged(client, hash, { name: 'a.png' })).uploaded, false);
+  });
+
+  it('keeps what it knows across restarts', async () => {
+    serveImage('image');
+    const client = fakeClient();
+    const cache = newCache();
+    await cache.uploadUrl(client, base+'/a.png', { name: 'a.png' });
+    await cache.flush();
+    assert.deepEqual(tempFilesOf(file), []);
+    const reloaded = newCache();
+    await reloaded.load();
+    const media = await reloaded.uploadUrl(client, base+'/a.png', { name: 'a.png' });
+    assert.equal(media.uploaded, false);
+    assert.equal(media.downloaded, false);
+    assert.equal(client.uploads.length, 1);
+  });
+
+  it('follows redirects', async () => {
+    handler = (req, res) => {
+      if (req.url === '/moved') {
+        res.writeHead(302, { location: '/a.png' });
+        return res.end();
+      }
+      res.writeHead(200, { 'content-type': 'image/png' });
+      res.end('image');
+    };
+    const media = await newCache().uploadUrl(fakeClient(), base+'/moved', { name: 'a.png' });
+    assert.equal(media.contentUri, 'mxc://example.org/1');
+  });
+
+  it('rejects redirects to other protocols', async () => {
+    handler = (req, res) => {
+      res.writeHead(302, { location: 'file:///etc/passwd' });
+      res.end();
+    };
+    await assertRejects(newCache().uploadUrl(fakeClient(), base+'/moved', { name: 'a' }), /only http and https/);
+  });
+
+  it('rejects failed downloads', async () => {
+    handler = (req, res) => {
+      res.writeHead(404);
+      res.end();
+    };
+    await assertRejects(newCache().uploadUrl(fakeClient(), base+'/gone.png', { name: 'a' }), /HTTP 404/);
+  });
+
+  it('gives up on stalled downloads', async () => {
+    handler = (req, res) => {
+      res.writeHead(200);
+      res.write('partial');
+      // and never ends
+    };
+    const cache = newCache({ timeoutMs: 100 });
+    await assertRejects(cache.uploadUrl(fakeClient(), base+'/slow.png', { name: 'a' }), /timed out/);
+  });
+
+  it('gives up on downloads larger than the limit', async () => {
+    handler = (req, res) => {
+      res.writeHead(200);
+      res.write(Buffer.alloc(64));
+      res.end(Buffer.alloc(64));
+    };
+    const cache = newCache({ maxBytes: 100 });
+    await assertRejects(cache.uploadUrl(fakeClient(), base+'/huge.png', { name: 'a' }), /larger than 100 bytes/);
+  });
+
+  it('rejects downloads announced larger than the limit right away', async () => {
+    handler = (req, res) => {
+      res.writeHead(200, { 'content-length': '1000' });
+      res.write(Buffer.alloc(10));
+    };
+    const cache = newCache({ maxBytes: 100 });
+    await assertRejects(cache.uploadUrl(fakeClient(), base+'/huge.png', { name: 'a' }), /larger than 100 bytes/);
+  });
+});
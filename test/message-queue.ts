@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageQueue, QueueItem } from '../src/message-queue';
+import { configureLogging } from '../src/logger';
+import { assertRejects, delay } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const OPTIONS = { maxAttempts: 3, initialDelayMs: 10, maxDelayMs: 20 };
+
+describe('MessageQueue', () => {
+  let file : string;
+  let queues : MessageQueue[];
+
+  const newQueue = () => {
+    const queue = new MessageQueue(file, OPTIONS);
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(() => {
+    queues = [];
+    file = path.join(os.tmpdir(), 'message-queue-test-'+process.pid+'-'+Date.now());
+  });
+
+  afterEach(() => {
+    queues.forEach(q => q.unregister('net/a'));
+    // one after the other, the queues share their file
+    return queues.reduce((p, q) => p.then(() => q.flush()), Promise.resolve()).then(() => {
+      [file, file+'.tmp'].forEach(f => fs.existsSync(f) && fs.unlinkSync(f));
+    });
+  });
+
+  it('handles the items of a room in order', async () => {
+    const queue = newQueue();
+    await queue.load();
+    const handled : string[] = [];
+    queue.register('net/a', (item) => {
+      // the first item is slower, the second must still wait for it
+      return delay(item.payload === 'first' ? 20 : 0).then(() => {
+        handled.push(item.payload);
+      });
+    }, () => {});
+    await Promise.all([
+      queue.push('net/a', 'to_matrix', 'room', 'message', 'first'),
+      queue.push('net/a', 'to_matrix', 'room', 'message', 'second')
+    ]);
+    assert.deepEqual(handled, ['first', 'second']);
+  });
+
+  it('retries a failed item before moving on', async () => {
+    const queue = newQueue();
+    await queue.load();
+    const handled : string[] = [];
+    let failures = 1;
+    queue.register('net/a', (item) => {
+      if (item.payload === 'first' && failures-- > 0) {
+        return Promise.reject(new Error('try again'));
+      }
+      handled.push(item.payload);
+      return Promise.resolve();
+    }, () => {});
+    await Promise.all([
+      queue.push('net/a', 'to_matrix', 'room', 'message', 'first'),
+      queue.push('net/a', 'to_matrix', 'room', 'message', 'second')
+    ]);
+    assert.deepEqual(handled, ['first', 'second']);
+  });
+
+  it('gives up on an item after the maximum attempts', async () => {
+    const queue = newQueue();
+    await queue.load();
+    const failed : QueueItem[] = [];
+    queue.register('net/a', () => Promise.reject(new Error('broken')), (item) => {
+      failed.push(item);
+    });
+    await assertRejects(queue.push('net/a', 'to_matrix', 'room', 'message', 'first'), /broken/);
+    assert.equal(failed.length, 1);
+    assert.equal(failed[0].attempts, 3);
+    assert.equal(failed[0].lastError, 'broken');
+  });
+
+  it('keeps pending items across restarts', async () => {
+    const queue = newQueue();
+    await queue.load();
+    queue.push('net/a', 'to_remote', 'room', 'message', 'first');
+    queue.push('net/a', 'to_remote', 'room', 'message', 'second');
+    await queue.flush();
+    const reloaded = newQueue();
+    await reloaded.load();
+    const handled : string[] = [];
+    reloaded.register('net/a', (item) => {
+      handled.push(item.payload);
+      return Promise.resolve();
+    }, () => {});
+    await delay(20);
+    assert.deepEqual(handled, ['first', 'second']);
+  });
+
+  it('holds back a paused direction until it is resumed', async () => {
+    const queue = newQueue();
+    await queue.load();
+    const handled : string[] = [];
+    queue.pause('net/a', 'to_remote');
+    queue.register('net/a', (item) => {
+      handled.push(item.payload);
+      return Promise.resolve();
+    }, () => {});
+    const toRemote = queue.push('net/a', 'to_remote', 'room', 'message', 'to remote');
+    await queue.push('net/a', 'to_matrix', 'room', 'message', 'to matrix');
+    assert.deepEqual(handled, ['to matrix']);
+    queue.resume('net/a', 'to_remote');
+    await toRemote;
+    assert.deepEqual(handled, ['to matrix', 'to remote']);
+  });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageStore } from '../src/message-store';
+import { configureLogging } from '../src/logger';
+import { delay, tempFilesOf } from './helpers';
+
+configureLogging({ level: 'error' });
+
+describe('MessageStore', () => {
+  let file : string;
+
+  beforeEach(() => {
+    file = path.join(os.tmpdir(), 'message-store-test-'+process.pid+'-'+Date.now()+'.json');
+  });
+
+  afterEach(() => {
+    [file, file+'.corrupt'].concat(tempFilesOf(file)).forEach(f => fs.existsSync(f) && fs.unlinkSync(f));
+  });
+
+  const message = (n: number) => ({ matrixEventId: '$event'+n, remoteId: 'remote'+n, sender: '@ghost:example.org' });
+
+  it('finds messages by either ID', async () => {
+    const store = new MessageStore(file);
+    await store.load();
+    await store.add('skype', 'soru', 'room', message(1));
+    assert.deepEqual(await store.getByMatrixEventId('skype', 'soru', 'room', '$event1'), message(1));
+    assert.deepEqual(await store.getByRemoteId('skype', 'soru', 'room', 'remote1'), message(1));
+    assert.equal(await store.getByRemoteId('skype', 'other', 'room', 'remote1'), null);
+    await store.removeByMatrixEventId('skype', 'soru', 'room', '$event1');
+    assert.equal(await store.getByRemoteId('skype', 'soru', 'room', 'remote1'), null);
+    await store.flush();
+  });
+
+  it('batches writes and keeps the messages across restarts', async () => {
+    const store = new MessageStore(file, { delayMs: 20 });
+    await store.load();
+    for (let n = 0; n < 50; n++) {
+      store.add('skype', 'soru', 'room', message(n));
+    }
+    assert.ok(!fs.existsSync(file), 'nothing written before the delay');
+    await delay(60);
+    const reloaded = new MessageStore(file);
+    await reloaded.load();
+    assert.deepEqual(await reloaded.getByRemoteId('skype', 'soru', 'room', 'remote49'), message(49));
+    assert.deepEqual(await reloaded.getByRemoteId('skype', 'soru', 'room', 'remote0'), message(0));
+  });
+
+  it('never leaves a partial file behind when writes overlap', async () => {
+    const store = new MessageStore(file);
+    await store.load();
+    let writes = [];
+    for (let n = 0; n < 20; n++) {
+      store.add('skype', 'soru', 'room', message(n));
+      writes.push(store.flush());
+    }
+    await Promise.all(writes);
+    assert.equal(JSON.parse(fs.readFileSync(file, 'utf8'))['skype/soru/room'].length, 20);
+    assert.deepEqual(tempFilesOf(file), []);
+  });
+
+  it('starts empty if the file is corrupt, and keeps a copy of it', async () => {
+    fs.writeFileSync(file, '{"skype/soru/room": [{"matrixEv');
+    const store = new MessageStore(file);
+    await store.load();
+    assert.equal(await store.getByRemoteId('skype', 'soru', 'room', 'remote1'), null);
+    assert.equal(fs.readFileSync(file+'.corrupt', 'utf8'), '{"skype/soru/room": [{"matrixEv');
+    await store.add('skype', 'soru', 'room', message(1));
+    await store.flush();
+    assert.ok(JSON.parse(fs.readFileSync(file, 'utf8')));
+  });
+
+  it('keeps only the latest messages of a room', async () => {
+    const store = new MessageStore(file);
+    await store.load();
+    for (let n = 0; n < 1001; n++) {
+      store.add('skype', 'soru', 'room', message(n));
+    }
+    assert.equal(await store.getByRemoteId('skype', 'soru', 'room', 'remote0'), null);
+    assert.deepEqual(await store.getByRemoteId('skype', 'soru', 'room', 'remote1'), message(1));
+    await store.flush();
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProvisioningApi, ProvisioningHost } from '../src/provisioning';
+import { associateToken } from '../src/associate-token';
+import { configureLogging } from '../src/logger';
+import { tempFilesOf } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const SECRET = 'provisioning-secret';
+
+const CONFIG = {
+  homeserver: { domain: 'example.org', url: 'http://localhost:8008' },
+  users: { alice: { password: 'pw' } },
+  networks: {}
+};
+
+interface Response {
+  status: number;
+  body: any;
+}
+
+describe('ProvisioningApi', () => {
+  let configPath : string;
+  let routes : { [route: string]: (req, res) => void };
+  let reloads : number;
+
+  beforeEach(() => {
+    configPath = path.join(os.tmpdir(), 'provisioning-test-'+process.pid+'-'+Date.now()+'.json');
+    fs.writeFileSync(configPath, JSON.stringify(CONFIG));
+    routes = {};
+    reloads = 0;
+    const bridge : any = {
+      addAppServicePath: ({ method, path, handler }) => {
+        routes[method+' '+path] = handler;
+      }
+    };
+    const host : ProvisioningHost = {
+      getPuppet: () => null,
+      getBase: () => null,
+      reload: () => {
+        reloads++;
+        return Promise.resolve({ changes: ['Added puppet bob'], skipped: [] });
+      }
+    };
+    new ProvisioningApi(bridge, host, configPath, SECRET).register();
+  });
+
+  afterEach(() => {
+    [configPath].concat(tempFilesOf(configPath)).forEach(f => fs.existsSync(f) && fs.unlinkSync(f));
+  });
+
+  const request = (method: string, route: string, req: any) => new Promise<Response>((resolve) => {
+    let status = 200;
+    const res = {
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: (body: any) => resolve({ status, body })
+    };
+    routes[method+' /_matrix/provision/v1'+route]({ params: {}, query: {}, headers: {}, ...req }, res);
+  });
+
+  it('rejects requests without the shared secret', async () => {
+    const res = await request('GET', '/users', {});
+    assert.equal(res.status, 401);
+  });
+
+  it('rejects a wrong shared secret', async () => {
+    const res = await request('GET', '/users', { headers: { authorization: 'Bearer wrong' } });
+    assert.equal(res.status, 401);
+  });
+
+  it('does not take the shared secret from the query string', async () => {
+    const res = await request('GET', '/users', { query: { access_token: SECRET } });
+    assert.equal(res.status, 401);
+  });
+
+  it('answers requests with the shared secret as bearer token', async () => {
+    const res = await request('GET', '/users', { headers: { authorization: 'Bearer '+SECRET } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.users.map(u => u.localpart), ['alice']);
+  });
+
+  it('writes changes to the config file and applies them', async () => {
+    const res = await request('PUT', '/users/:localpart', {
+      headers: { authorization: 'Bearer '+SECRET },
+      params: { localpart: 'bob' },
+      body: { token: 'bobs-token' }
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.changes, ['Added puppet bob']);
+    assert.equal(reloads, 1);
+    assert.deepEqual(JSON.parse(fs.readFileSync(configPath, 'utf8')).users.bob, { token: 'bobs-token' });
+    assert.deepEqual(tempFilesOf(configPath), []);
+  });
+
+  it('leaves the config file alone if the change makes it invalid', async () => {
+    const res = await request('PUT', '/users/:localpart', {
+      headers: { authorization: 'Bearer '+SECRET },
+      params: { localpart: 'bob' },
+      body: {}
+    });
+    assert.equal(res.status, 400);
+    assert.equal(reloads, 0);
+    assert.deepEqual(JSON.parse(fs.readFileSync(configPath, 'utf8')), CONFIG);
+  });
+
+  it('does not lose changes written to the config file at the same time', async () => {
+    const headers = { authorization: 'Bearer '+SECRET };
+    const [res] = await Promise.all([
+      request('PUT', '/users/:localpart', { headers, params: { localpart: 'bob' }, body: { token: 'bobs-token' } }),
+      associateToken({ localpart: 'alice', jsonFile: configPath, token: 'alices-token' }),
+      request('PUT', '/users/:localpart', { headers, params: { localpart: 'carol' }, body: { password: 'pw' } })
+    ]);
+    assert.equal(res.status, 200);
+    const users = JSON.parse(fs.readFileSync(configPath, 'utf8')).users;
+    assert.deepEqual(Object.keys(users).sort(), ['alice', 'bob', 'carol']);
+    assert.equal(users.alice.token, 'alices-token');
+    assert.deepEqual(tempFilesOf(configPath), []);
+  });
+});
@@ -0,0 +1,183 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import { Puppet } from '../src/puppet';
+import { configureLogging } from '../src/logger';
+import { delay, fakeRoomStore } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const matrixSdk = require('matrix-js-sdk');
+
+const HOMESERVER = <any>{ domain: 'example.org', url: 'http://puppet-test.example.org' };
+const PASSWORD = 'hunter2';
+
+/**
+ * Stands in for the homeserver: knows which access tokens are valid, and hands out a new one
+ * for the right password
+ */
+const fakeHomeserver = () => {
+  const homeserver = {
+    revoked: <string[]>[],
+    clients: <any[]>[],
+    logins: 0,
+    createClient: (opts) => {
+      if (typeof opts === 'string') {
+        return {
+          loginWithPassword: (userId, password) => {
+            if (password !== PASSWORD) {
+              return Promise.reject(new Error('Invalid password'));
+            }
+            homeserver.logins++;
+            return Promise.resolve({ access_token: 'token'+homeserver.logins });
+          }
+        };
+      }
+      const client : any = new EventEmitter();
+      const valid = () => homeserver.revoked.indexOf(opts.accessToken) === -1;
+      client.accessToken = opts.accessToken;
+      client.startClient = () => setImmediate(() => {
+        if (valid()) {
+          client.emit('sync', 'PREPARED', null);
+        } else {
+          client.emit('sync', 'ERROR', null, { error: { errcode: 'M_UNKNOWN_TOKEN' } });
+        }
+      });
+      client.stopClient = () => {};
+      client.getRoom = () => null;
+      client.joinRoom = () => valid() ? Promise.resolve({}) : Promise.reject(new Error('Invalid macaroon passed.'));
+      client.setRoomTag = client.joinRoom;
+      homeserver.clients.push(client);
+      return client;
+    }
+  };
+  return homeserver;
+};
+
+/**
+ * The intent of the bot, it only knows the status room by its alias if told to
+ */
+const fakeBot = (statusRoomAlias: boolean) => {
+  const bot = {
+    created: 0,
+    sent: <string[]>[],
+    redacted: <string[]>[],
+    getClient: () => ({
+      getRoomIdForAlias: () => {
+        return statusRoomAlias ? Promise.resolve({ room_id: '!status' }) : Promise.reject(new Error('Room alias not found'));
+      },
+      redactEvent: (roomId, eventId) => {
+        bot.redacted.push(eventId);
+        return Promise.resolve({});
+      }
+    }),
+    createRoom: () => {
+      bot.created++;
+      return Promise.resolve({ room_id: '!created' });
+    },
+    join: () => Promise.resolve(),
+    setPowerLevel: () => Promise.resolve(),
+    sendMessage: (roomId, content) => {
+      bot.sent.push(roomId+' '+content.body);
+      return Promise.resolve({});
+    }
+  };
+  return bot;
+};
+
+class FakeAdapter {
+}
+
+describe('Puppet', () => {
+  const createClient = matrixSdk.createClient;
+  let homeserver;
+  let roomStore;
+  let bot;
+
+  const makePuppet = (token: string) => {
+    const puppet = new Puppet('alice', { token }, HOMESERVER);
+    const bridge = <any>{
+      getRoomStore: () => roomStore,
+      getIntent: () => bot
+    };
+    puppet.addAdapter(FakeAdapter, <any>{ id: 'soru', matrixPuppet: 'alice', thirdParty: {} }, 'skype', bridge);
+    return puppet;
+  };
+
+  const waitFor = async (text: string) => {
+    for (let i = 0; i < 100; i++) {
+      const sent = bot.sent.find(s => s.indexOf(text) !== -1);
+      if (sent) {
+        return sent;
+      }
+      await delay(10);
+    }
+    assert.fail(bot.sent, text, 'no status message containing '+JSON.stringify(text), '');
+  };
+
+  const typeLogin = (puppet: Puppet, roomId: string) => {
+    return puppet.handleMatrixEvent({
+      getData: () => ({
+        type: 'm.room.message',
+        sender: '@alice:example.org',
+        room_id: roomId,
+        event_id: '$password',
+        content: { msgtype: 'm.text', body: '!login '+PASSWORD }
+      })
+    }, null);
+  };
+
+  beforeEach(() => {
+    homeserver = fakeHomeserver();
+    matrixSdk.createClient = homeserver.createClient;
+    roomStore = fakeRoomStore();
+  });
+
+  afterEach(() => {
+    matrixSdk.createClient = createClient;
+  });
+
+  it('asks for the password in the status room it persisted once its token is revoked', async () => {
+    // the bot can't look up the alias, the status room is only known from the room store
+    bot = fakeBot(false);
+    roomStore.links['skype_puppet_soru!status'] = {
+      matrixRoomId: '!status',
+      data: { network: 'skype', identityPair: 'soru', statusRoom: true }
+    };
+    const puppet = makePuppet('token0');
+    await (<any>puppet.getBases()[0]).rooms.load();
+    await puppet.startClient();
+
+    homeserver.revoked.push('token0');
+    homeserver.clients[0].emit('sync', 'ERROR', null, { error: { errcode: 'M_UNKNOWN_TOKEN' } });
+    assert.ok(/^!status .*!login <password>/.test(await waitFor('!login')));
+    assert.equal(puppet.getSyncState(), 'LOGGED_OUT');
+
+    await typeLogin(puppet, '!status');
+    assert.equal(await waitFor('Logged in again'), '!status Logged in again as @alice:example.org');
+    assert.deepEqual(bot.redacted, ['$password']);
+    assert.equal(bot.created, 0);
+    assert.equal((<any>puppet.client).accessToken, 'token1');
+    assert.equal(puppet.getSyncState(), 'PREPARED');
+  });
+
+  it('starts once the password was typed in the status room if its token was revoked before', async () => {
+    bot = fakeBot(true);
+    homeserver.revoked.push('token0');
+    const puppet = makePuppet('token0');
+    let started = false;
+    const starting = puppet.startClient().then(() => {
+      started = true;
+    });
+
+    assert.ok(/^!status .*!login <password>/.test(await waitFor('!login')));
+    assert.equal(started, false);
+    // remembered for the next time the alias can't be looked up
+    assert.equal(roomStore.links['skype_puppet_soru!status'].matrixRoomId, '!status');
+
+    await typeLogin(puppet, '!status');
+    await starting;
+    assert.deepEqual(bot.redacted, ['$password']);
+    assert.equal((<any>puppet.client).accessToken, 'token1');
+    assert.equal(puppet.getSyncState(), 'PREPARED');
+  });
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { RequestScheduler } from '../src/request-scheduler';
+import { configureLogging } from '../src/logger';
+import { assertRejects, delay } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const rateLimited = (retryAfterMs?: number) => {
+  let err : any = new Error('Too many requests');
+  err.errcode = 'M_LIMIT_EXCEEDED';
+  err.httpStatus = 429;
+  err.data = { errcode: 'M_LIMIT_EXCEEDED', retry_after_ms: retryAfterMs };
+  return err;
+};
+
+describe('RequestScheduler', () => {
+  it('runs waiting requests highest priority first', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, maxRetries: 5 });
+    let order : string[] = [];
+    let release : () => void;
+    const blocker = scheduler.schedule('low', () => new Promise<void>(resolve => release = resolve));
+    const done = Promise.all(['low', 'normal', 'high', 'normal'].map((priority, i) => {
+      return scheduler.schedule(<any>priority, () => {
+        order.push(priority+i);
+        return Promise.resolve();
+      });
+    }));
+    await delay(0);
+    release();
+    await blocker;
+    await done;
+    assert.deepEqual(order, ['high2', 'normal1', 'normal3', 'low0']);
+  });
+
+  it('runs only so many requests at once', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2, maxRetries: 5 });
+    let running = 0;
+    let most = 0;
+    const request = () => {
+      running++;
+      most = Math.max(most, running);
+      return new Promise<void>(resolve => setTimeout(() => {
+        running--;
+        resolve();
+      }, 5));
+    };
+    await Promise.all([1, 2, 3, 4, 5].map(() => scheduler.schedule('normal', request)));
+    assert.equal(most, 2);
+  });
+
+  it('waits as long as the homeserver asks, and tries a rate limited request again', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, maxRetries: 5 });
+    let attempts : number[] = [];
+    const start = Date.now();
+    const result = await scheduler.schedule('high', () => {
+      attempts.push(Date.now() - start);
+      return attempts.length === 1 ? Promise.reject(rateLimited(50)) : Promise.resolve('sent');
+    });
+    assert.equal(result, 'sent');
+    assert.equal(attempts.length, 2);
+    assert.ok(attempts[1] >= 45, 'retried after '+attempts[1]+'ms');
+  });
+
+  it('holds back the other requests while rate limited', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2, maxRetries: 5 });
+    let order : string[] = [];
+    const start = Date.now();
+    const first = scheduler.schedule('normal', () => {
+      order.push('first');
+      return order.length === 1 ? Promise.reject(rateLimited(50)) : Promise.resolve();
+    });
+    await delay(5);
+    let startedAt : number;
+    const second = scheduler.schedule('high', () => {
+      startedAt = Date.now() - start;
+      order.push('second');
+      return Promise.resolve();
+    });
+    await Promise.all([first, second]);
+    // the limited request keeps its place
+    assert.deepEqual(order, ['first', 'first', 'second']);
+    assert.ok(startedAt >= 45, 'started after '+startedAt+'ms');
+  });
+
+  it('gives up on a request that stays rate limited', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, maxRetries: 2 });
+    let attempts = 0;
+    await assertRejects(scheduler.schedule('high', () => {
+      attempts++;
+      return Promise.reject(rateLimited(1));
+    }), /Too many requests/);
+    assert.equal(attempts, 3);
+  });
+
+  it('passes other errors on right away', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, maxRetries: 5 });
+    let attempts = 0;
+    await assertRejects(scheduler.schedule('high', () => {
+      attempts++;
+      return Promise.reject(new Error('forbidden'));
+    }), /forbidden/);
+    assert.equal(attempts, 1);
+  });
+
+  it('schedules the requests of a wrapped client, and calls its other methods directly', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, maxRetries: 5 });
+    let sent = 0;
+    const client = {
+      sendMessage: () => {
+        sent++;
+        return sent === 1 ? Promise.reject(rateLimited(1)) : Promise.resolve({ event_id: '$1' });
+      },
+      makeTxnId: () => 'txn'
+    };
+    const wrapped = scheduler.wrap(client);
+    assert.equal(wrapped.makeTxnId(), 'txn');
+    assert.deepEqual(await wrapped.sendMessage(), { event_id: '$1' });
+    assert.equal(sent, 2);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { RoomMap } from '../src/room-map';
+import { configureLogging } from '../src/logger';
+import { assertRejects, fakeRoomStore } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const bridgeWith = (roomStore) => <any>{ getRoomStore: () => roomStore };
+
+describe('RoomMap', () => {
+  it('keeps the links across restarts, apart from those of other identity pairs', async () => {
+    const roomStore = fakeRoomStore();
+    const rooms = new RoomMap(bridgeWith(roomStore), 'skype', 'soru');
+    await rooms.load();
+    await rooms.set('room1', '!one');
+    await rooms.set('room2', '!two');
+    await new RoomMap(bridgeWith(roomStore), 'skype', 'other').set('room3', '!three');
+    await rooms.remove('room2');
+    const reloaded = new RoomMap(bridgeWith(roomStore), 'skype', 'soru');
+    await reloaded.load();
+    assert.deepEqual(reloaded.entries(), [{ thirdPartyRoomId: 'room1', matrixRoomId: '!one' }]);
+    assert.equal(reloaded.getThirdPartyRoomId('!one'), 'room1');
+  });
+
+  it('refuses to load or link before the room store is loaded', async () => {
+    const rooms = new RoomMap(bridgeWith(null), 'skype', 'soru');
+    await assertRejects(rooms.load(), /room store of the bridge is not loaded yet/);
+    await assertRejects(rooms.set('room1', '!one'), /room store of the bridge is not loaded yet/);
+    assert.equal(rooms.getMatrixRoomId('room1'), null);
+  });
+
+  it('does not keep a link it failed to persist, so it is persisted on the next try', async () => {
+    const roomStore = fakeRoomStore();
+    roomStore.failLinks = 1;
+    const rooms = new RoomMap(bridgeWith(roomStore), 'skype', 'soru');
+    await assertRejects(rooms.set('room1', '!one'), /database is locked/);
+    assert.equal(rooms.getMatrixRoomId('room1'), null);
+    await rooms.set('room1', '!one');
+    assert.equal(Object.keys(roomStore.links).length, 1);
+  });
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretStore, secretStore } from '../src/secrets';
+import { migrateSecrets } from '../src/migrate-secrets';
+import { assertRejects } from './helpers';
+
+const PASSPHRASE = { MATRIX_PUPPET_SECRETS_PASSPHRASE: 'correct horse' };
+
+describe('SecretStore', () => {
+  let dir : string;
+  let storePath : string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-test-'));
+    storePath = path.join(dir, 'secrets.json.enc');
+  });
+
+  afterEach(() => {
+    secretStore.close();
+    fs.readdirSync(dir).forEach(f => fs.unlinkSync(path.join(dir, f)));
+    fs.rmdirSync(dir);
+  });
+
+  it('keeps secrets encrypted across restarts', async () => {
+    const store = new SecretStore();
+    await store.open({ store: storePath }, PASSPHRASE);
+    await store.set('users.alice.password', 'hunter2');
+    assert.ok(fs.readFileSync(storePath, 'utf8').indexOf('hunter2') === -1);
+    const reopened = new SecretStore();
+    await reopened.open({ store: storePath }, PASSPHRASE);
+    assert.equal(reopened.get('users.alice.password'), 'hunter2');
+  });
+
+  it('refuses the wrong passphrase, and keeps the store that is open', async () => {
+    const store = new SecretStore();
+    await store.open({ store: storePath }, PASSPHRASE);
+    await store.set('a', 'b');
+    await assertRejects(store.open({ store: storePath }, { MATRIX_PUPPET_SECRETS_PASSPHRASE: 'wrong' }), /Wrong passphrase/);
+    await store.set('c', 'd');
+    const reopened = new SecretStore();
+    await reopened.open({ store: storePath }, PASSPHRASE);
+    assert.equal(reopened.get('c'), 'd');
+  });
+
+  it('keeps every secret set at the same time', async () => {
+    const store = new SecretStore();
+    await store.open({ store: storePath }, PASSPHRASE);
+    await Promise.all([1, 2, 3, 4, 5].map(n => store.set('secret'+n, 'value'+n)));
+    assert.deepEqual(fs.readdirSync(dir), ['secrets.json.enc']);
+    const reopened = new SecretStore();
+    await reopened.open({ store: storePath }, PASSPHRASE);
+    assert.deepEqual([1, 2, 3, 4, 5].map(n => reopened.get('secret'+n)), ['value1', 'value2', 'value3', 'value4', 'value5']);
+  });
+
+  it('keeps the secrets another process saved in the meantime', async () => {
+    const store = new SecretStore();
+    await store.open({ store: storePath }, PASSPHRASE);
+    await store.set('a', 'b');
+    const bridge = new SecretStore();
+    const migration = new SecretStore();
+    await bridge.open({ store: storePath }, PASSPHRASE);
+    await migration.open({ store: storePath }, PASSPHRASE);
+    await migration.set('users.alice.password', 'hunter2');
+    await bridge.set('users.bob.token', 'token');
+    assert.equal(bridge.get('users.alice.password'), 'hunter2');
+    const reopened = new SecretStore();
+    await reopened.open({ store: storePath }, PASSPHRASE);
+    assert.equal(reopened.get('users.alice.password'), 'hunter2');
+    assert.equal(reopened.get('users.bob.token'), 'token');
+  });
+
+  it('needs a passphrase', async () => {
+    await assertRejects(new SecretStore().open({ store: storePath }, {}), /needs a passphrase/);
+  });
+
+  it('resolves secret and environment references', async () => {
+    const store = new SecretStore();
+    await store.open({ store: storePath }, PASSPHRASE);
+    await store.set('token', 's3cret');
+    const resolved = store.resolve({ token: { $secret: 'token' }, user: { $env: 'SKYPE_USER' }, plain: 1 }, { SKYPE_USER: 'soru' });
+    assert.deepEqual(resolved, { token: 's3cret', user: 'soru', plain: 1 });
+    assert.throws(() => store.resolve({ $secret: 'missing' }), /Unknown secret "missing"/);
+    assert.throws(() => new SecretStore().resolve({ $secret: 'token' }), /no secrets store is configured/);
+  });
+
+  it('migrates the plaintext secrets of a config file', async () => {
+    const keyFile = path.join(dir, 'passphrase');
+    fs.writeFileSync(keyFile, 'correct horse\n');
+    const configPath = path.join(dir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      secrets: { store: storePath, keyFile },
+      users: { alice: { password: 'hunter2' } },
+      networks: { skype: { identityPairs: { soru: { matrixPuppet: 'alice', thirdParty: { username: 'soru', password: 'pw' } } } } }
+    }));
+    const migrated = await migrateSecrets(configPath);
+    assert.deepEqual(migrated, ['users.alice.password', 'networks.skype.soru.password']);
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    assert.deepEqual(config.users.alice, { password: { $secret: 'users.alice.password' } });
+    assert.deepEqual(config.networks.skype.identityPairs.soru.thirdParty, {
+      username: 'soru', password: { $secret: 'networks.skype.soru.password' }
+    });
+    const store = new SecretStore();
+    await store.open({ store: storePath }, PASSPHRASE);
+    assert.equal(store.get('networks.skype.soru.password'), 'pw');
+    // nothing left to migrate
+    assert.deepEqual(await migrateSecrets(configPath), []);
+  });
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { AdapterSupervisor, StateTransition } from '../src/supervisor';
+import { configureLogging } from '../src/logger';
+import { assertRejects, delay } from './helpers';
+
+configureLogging({ level: 'error' });
+
+const BACKOFF = { initialDelayMs: 10, maxDelayMs: 40, factor: 2 };
+
+/**
+ * An adapter whose connection attempts fail until told otherwise
+ */
+const fakeAdapter = () => {
+  const adapter = {
+    failures: 0,
+    connects: 0,
+    disconnects: 0,
+    describe: () => 'net/a',
+    connect: () => {
+      adapter.connects++;
+      if (adapter.failures > 0) {
+        adapter.failures--;
+        return Promise.reject(new Error('unreachable'));
+      }
+      return Promise.resolve();
+    },
+    disconnect: () => {
+      adapter.disconnects++;
+      return Promise.resolve();
+    }
+  };
+  return adapter;
+};
+
+describe('AdapterSupervisor', () => {
+  let transitions : StateTransition[];
+  let supervisors : AdapterSupervisor[];
+
+  const supervise = (adapter) => {
+    const supervisor = new AdapterSupervisor(adapter, t => transitions.push(t), BACKOFF);
+    supervisors.push(supervisor);
+    return supervisor;
+  };
+
+  const states = () => transitions.map(t => t.to);
+
+  beforeEach(() => {
+    transitions = [];
+    supervisors = [];
+  });
+
+  afterEach(() => {
+    return Promise.all(supervisors.map(s => s.stop(() => Promise.resolve())));
+  });
+
+  it('goes from starting to connected', async () => {
+    const supervisor = supervise(fakeAdapter());
+    await supervisor.start();
+    assert.equal(supervisor.getState(), 'connected');
+    assert.deepEqual(states(), ['starting', 'connected']);
+  });
+
+  it('retries a failed start with growing delays, up to the maximum', async () => {
+    const adapter = fakeAdapter();
+    adapter.failures = 4;
+    const supervisor = supervise(adapter);
+    await assertRejects(supervisor.start(), /unreachable/);
+    assert.equal(supervisor.getState(), 'failed');
+    await delay(10 + 20 + 40 + 40 + 100);
+    assert.equal(supervisor.getState(), 'connected');
+    assert.equal(adapter.connects, 5);
+    const failed = transitions.filter(t => t.to === 'failed');
+    assert.deepEqual(failed.map(t => t.retryInMs), [10, 20, 40, 40]);
+    assert.deepEqual(failed.map(t => t.reason), ['unreachable', 'unreachable', 'unreachable', 'unreachable']);
+  });
+
+  it('restarts a disconnected adapter after a backoff', async () => {
+    const adapter = fakeAdapter();
+    const supervisor = supervise(adapter);
+    await supervisor.start();
+    supervisor.reportDisconnect('connection reset');
+    assert.equal(supervisor.getState(), 'degraded');
+    assert.equal(transitions[2].reason, 'connection reset');
+    await delay(60);
+    assert.equal(supervisor.getState(), 'connected');
+    assert.equal(adapter.connects, 2);
+    assert.equal(adapter.disconnects, 1);
+  });
+
+  it('does not restart an adapter which reconnected by itself', async () => {
+    const adapter = fakeAdapter();
+    const supervisor = supervise(adapter);
+    await supervisor.start();
+    supervisor.reportDisconnect();
+    supervisor.reportConnected();
+    await delay(60);
+    assert.deepEqual(states(), ['starting', 'connected', 'degraded', 'connected']);
+    assert.equal(adapter.connects, 1);
+  });
+
+  it('ignores disconnects unless connected', async () => {
+    const adapter = fakeAdapter();
+    adapter.failures = 1;
+    const supervisor = supervise(adapter);
+    await assertRejects(supervisor.start(), /unreachable/);
+    supervisor.reportDisconnect();
+    assert.equal(supervisor.getState(), 'failed');
+  });
+
+  it('cancels pending retries when stopped', async () => {
+    const adapter = fakeAdapter();
+    adapter.failures = 1;
+    const supervisor = supervise(adapter);
+    await assertRejects(supervisor.start(), /unreachable/);
+    await supervisor.stop();
+    await delay(60);
+    assert.equal(supervisor.getState(), 'stopped');
+    assert.equal(adapter.connects, 1);
+  });
+});